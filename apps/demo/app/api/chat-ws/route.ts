@@ -5,7 +5,7 @@ import {
   stepCountIs,
 } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
-import { createWebSocketFetch } from 'ai-sdk-openai-websocket-fetch';
+import { getSharedWebSocketFetch } from 'ai-sdk-openai-websocket-fetch';
 import {
   MODEL_ID,
   MAX_STEPS,
@@ -15,13 +15,22 @@ import {
 
 export const maxDuration = 300;
 
+// Shared across requests and warm invocations: connections are keyed by
+// credentials, so warm sockets are reused between chat turns without
+// mixing tenants.
+const wsFetch = getSharedWebSocketFetch({
+  lifetime: { maxAge: 10 * 60_000, maxIdle: 5 * 60_000 },
+});
+const openai = createOpenAI({ fetch: wsFetch });
+
 export async function POST(req: Request) {
+  // open the socket while the request body and tools are loaded
+  wsFetch.preconnect().catch(() => {});
+
   const { messages }: { messages: UIMessage[] } = await req.json();
 
   console.log(`[ws] Request with ${messages.length} messages`);
 
-  const wsFetch = createWebSocketFetch();
-  const openai = createOpenAI({ fetch: wsFetch });
   const tools = await createTools();
 
   const result = streamText({
@@ -30,7 +39,6 @@ export async function POST(req: Request) {
     messages: await convertToModelMessages(messages),
     tools,
     stopWhen: stepCountIs(MAX_STEPS),
-    onFinish: () => wsFetch.close(),
   });
 
   return result.toUIMessageStreamResponse();
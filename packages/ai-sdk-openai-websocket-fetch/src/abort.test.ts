@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+  post,
+  readEvents,
+  respond,
+  responseEvents,
+  useMockServer,
+  waitFor,
+} from './test/mock-server';
+
+const mock = useMockServer(undefined, {
+  fallback: false,
+  reconnect: { initialDelay: 1, jitter: false },
+});
+
+describe('abort', () => {
+  it('cancels the response on the server and reuses the connection', async () => {
+    const [created, delta, completed] = responseEvents();
+    mock.server.handle((message, connection) => {
+      if (message.type === 'response.cancel') {
+        connection.send({
+          type: 'response.cancelled',
+          response: { id: message.response_id, status: 'cancelled' },
+        });
+      } else if (connection.messages.length === 1) {
+        connection.send(created);
+        connection.send(delta);
+      } else {
+        respond(message, connection);
+      }
+    });
+    const wsFetch = mock.create();
+
+    const controller = new AbortController();
+    const response = await post(
+      wsFetch,
+      {},
+      { signal: controller.signal },
+    );
+    const reader = response.body!.getReader();
+    await reader.read();
+    controller.abort();
+    await expect(reader.read()).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+
+    await waitFor(() => mock.server.messages.length === 2);
+    expect(mock.server.messages[1]).toEqual({
+      type: 'response.cancel',
+      response_id: completed.response.id,
+    });
+
+    const events = await readEvents(await post(wsFetch));
+    expect(events.at(-1)?.type).toBe('response.completed');
+    expect(mock.server.connections).toHaveLength(1);
+  });
+});
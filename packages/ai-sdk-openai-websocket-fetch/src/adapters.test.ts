@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from 'vitest';
+import NodeWebSocket from 'ws';
+import {
+  type WebSocketFactoryInit,
+  WebSocketHandshakeError,
+  type WebSocketLike,
+  createFetchUpgradeWebSocketFactory,
+  createGlobalWebSocketFactory,
+} from './index';
+import { post, useMockServer } from './test/mock-server';
+
+const mock = useMockServer(undefined, { fallback: false });
+
+const init: WebSocketFactoryInit = {
+  headers: {
+    authorization: 'Bearer sk-test',
+    'openai-organization': 'org-1',
+    'openai-project': 'proj-1',
+    'openai-beta': 'responses_websockets=2026-02-06',
+  },
+  maxPayload: 1024,
+  perMessageDeflate: false,
+};
+
+// records the arguments it was constructed with
+function recordingWebSocket() {
+  const calls: unknown[][] = [];
+  const WebSocket = function (...args: unknown[]) {
+    calls.push(args);
+    return { readyState: 0 };
+  } as unknown as new (url: string) => WebSocketLike;
+  return { calls, WebSocket };
+}
+
+describe('createGlobalWebSocketFactory', () => {
+  it('sends the credentials as subprotocols by default', () => {
+    const { calls, WebSocket } = recordingWebSocket();
+    createGlobalWebSocketFactory({ WebSocket })('wss://example.com', init);
+
+    expect(calls).toEqual([
+      [
+        'wss://example.com',
+        [
+          'openai-insecure-api-key.sk-test',
+          'openai-organization.org-1',
+          'openai-project.proj-1',
+        ],
+      ],
+    ]);
+  });
+
+  it('sends the headers to runtimes that accept them', () => {
+    const { calls, WebSocket } = recordingWebSocket();
+    createGlobalWebSocketFactory({ WebSocket, auth: 'headers' })(
+      'wss://example.com',
+      init,
+    );
+
+    expect(calls).toEqual([
+      ['wss://example.com', { headers: init.headers }],
+    ]);
+  });
+
+  it('sends the API key as a URL parameter', () => {
+    const { calls, WebSocket } = recordingWebSocket();
+    createGlobalWebSocketFactory({
+      WebSocket,
+      auth: 'query',
+      queryParameter: 'key',
+    })('wss://example.com/responses?a=1', init);
+
+    expect(calls).toEqual([
+      ['wss://example.com/responses?a=1&key=sk-test'],
+    ]);
+  });
+
+  it('sends no credentials for a proxy that has its own', () => {
+    const { calls, WebSocket } = recordingWebSocket();
+    createGlobalWebSocketFactory({ WebSocket, auth: 'none' })(
+      'wss://example.com',
+      init,
+    );
+
+    expect(calls).toEqual([['wss://example.com']]);
+  });
+
+  it('connects with the standard WebSocket interface', async () => {
+    const wsFetch = mock.create({
+      createWebSocket: createGlobalWebSocketFactory({
+        WebSocket: NodeWebSocket,
+      }),
+    });
+
+    const response = await post(wsFetch);
+    expect(response.status).toBe(200);
+    await response.text();
+
+    const [headers] = mock.server.handshakes;
+    expect(headers['sec-websocket-protocol']).toBe(
+      'openai-insecure-api-key.sk-test',
+    );
+    expect(headers).not.toHaveProperty('openai-beta');
+  });
+});
+
+describe('createFetchUpgradeWebSocketFactory', () => {
+  it('upgrades a fetch request with the handshake headers', async () => {
+    const socket = { readyState: 1, accept: vi.fn() };
+    const fetch = vi.fn<typeof globalThis.fetch>(async () =>
+      Object.assign(new Response(null), { webSocket: socket }),
+    );
+
+    const created = await createFetchUpgradeWebSocketFactory({ fetch })(
+      'wss://example.com/v1/responses',
+      init,
+    );
+
+    expect(created).toBe(socket);
+    expect(socket.accept).toHaveBeenCalled();
+    expect(fetch).toHaveBeenCalledWith(
+      'https://example.com/v1/responses',
+      {
+        headers: { ...init.headers, Upgrade: 'websocket' },
+      },
+    );
+  });
+
+  it('fails with the response of a rejected upgrade', async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () =>
+      Response.json(
+        { error: { message: 'Invalid API key' } },
+        { status: 401 },
+      ),
+    );
+
+    const error = await Promise.resolve(
+      createFetchUpgradeWebSocketFactory({ fetch })(
+        'wss://example.com/v1/responses',
+        init,
+      ),
+    ).catch(error => error);
+
+    expect(error).toBeInstanceOf(WebSocketHandshakeError);
+    expect(error).toMatchObject({ status: 401 });
+  });
+});
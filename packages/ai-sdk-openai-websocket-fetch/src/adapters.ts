@@ -0,0 +1,191 @@
+import type { ClientOptions } from 'ws';
+import { WebSocketHandshakeError } from './errors';
+import type { WebSocketFactory, WebSocketLike } from './socket';
+
+declare const EdgeRuntime: string | undefined;
+
+/**
+ * Creates connections with the `ws` package, which can send the handshake
+ * headers and ping connections. `ws` is loaded on first use, so bundles
+ * for other runtimes do not need it.
+ *
+ * @param options `ws` client options, e.g. `agent`. `maxPayload` and
+ * `perMessageDeflate` default to the options of `createWebSocketFetch`.
+ */
+export function createNodeWebSocketFactory(
+  options?: Omit<ClientOptions, 'headers'>,
+): WebSocketFactory {
+  return async (url, { headers, maxPayload, perMessageDeflate }) => {
+    const { default: WebSocket } = await import('ws');
+    return new WebSocket(url, {
+      maxPayload,
+      perMessageDeflate,
+      ...options,
+      headers,
+    });
+  };
+}
+
+export interface GlobalWebSocketFactoryOptions {
+  /**
+   * How the handshake headers are sent, since the standard `WebSocket`
+   * constructor cannot set headers:
+   *
+   * - `'headers'`: as the `headers` option that Bun and Deno accept.
+   * - `'subprotocol'`: as `openai-insecure-api-key.<key>`,
+   *   `openai-organization.<id>` and `openai-project.<id>` subprotocols,
+   *   OpenAI's convention for clients that cannot set headers. This
+   *   exposes the API key to the client, so only use it with keys that
+   *   are meant for it.
+   * - `'query'`: the API key as the `queryParameter` URL parameter, for
+   *   a proxy that exchanges a short-lived token for the real key.
+   * - `'none'`: not at all, for a proxy that authenticates the connection
+   *   itself.
+   *
+   * Except with `'headers'`, no other header is sent. That includes
+   * `OpenAI-Beta`, so the `protocolVersion` option has no effect and the
+   * server uses its default version, as well as custom headers selected
+   * by `handshakeHeaders`. A proxy can add them to the connection it opens
+   * to OpenAI.
+   *
+   * @default 'subprotocol'
+   */
+  auth?: 'headers' | 'subprotocol' | 'query' | 'none';
+
+  /**
+   * URL parameter that carries the API key with `auth: 'query'`.
+   * @default 'token'
+   */
+  queryParameter?: string;
+
+  /**
+   * `WebSocket` constructor to use.
+   * @default globalThis.WebSocket
+   */
+  WebSocket?: new (
+    url: string,
+    protocols?: string | string[],
+  ) => WebSocketLike;
+}
+
+/**
+ * Creates connections with the standard `WebSocket` of browsers, Edge
+ * runtimes, Deno and Bun. Pings are not available, so the `heartbeat`
+ * option has no effect on these connections.
+ */
+export function createGlobalWebSocketFactory(
+  options?: GlobalWebSocketFactoryOptions,
+): WebSocketFactory {
+  const auth = options?.auth ?? 'subprotocol';
+
+  return (url, { headers }) => {
+    const WebSocket = options?.WebSocket ?? globalThis.WebSocket;
+    if (typeof WebSocket !== 'function') {
+      throw new Error('No global WebSocket is available in this runtime');
+    }
+
+    switch (auth) {
+      case 'headers': {
+        // Bun and Deno take options in place of the protocols
+        const WithHeaders = WebSocket as unknown as new (
+          url: string,
+          options: { headers: Record<string, string> },
+        ) => WebSocketLike;
+        return new WithHeaders(url, { headers });
+      }
+      case 'subprotocol':
+        return new WebSocket(url, authSubprotocols(headers));
+      case 'query': {
+        const withToken = new URL(url);
+        const apiKey = bearerToken(headers);
+        if (apiKey) {
+          withToken.searchParams.set(
+            options?.queryParameter ?? 'token',
+            apiKey,
+          );
+        }
+        return new WebSocket(withToken.toString());
+      }
+      case 'none':
+        return new WebSocket(url);
+    }
+  };
+}
+
+function authSubprotocols(headers: Record<string, string>): string[] {
+  const protocols: string[] = [];
+  const apiKey = bearerToken(headers);
+  if (apiKey) protocols.push(`openai-insecure-api-key.${apiKey}`);
+  if (headers['openai-organization']) {
+    protocols.push(
+      `openai-organization.${headers['openai-organization']}`,
+    );
+  }
+  if (headers['openai-project']) {
+    protocols.push(`openai-project.${headers['openai-project']}`);
+  }
+  return protocols;
+}
+
+function bearerToken(headers: Record<string, string>): string | undefined {
+  return headers['authorization']?.replace(/^Bearer\s+/i, '') || undefined;
+}
+
+/**
+ * Creates connections by upgrading a `fetch` request, as Cloudflare
+ * Workers do, which sends the handshake headers without `ws`.
+ *
+ * @param options.fetch `fetch` implementation to upgrade with.
+ */
+export function createFetchUpgradeWebSocketFactory(options?: {
+  fetch?: typeof globalThis.fetch;
+}): WebSocketFactory {
+  return async (url, { headers }) => {
+    const fetch = options?.fetch ?? globalThis.fetch;
+    const response = await fetch(url.replace(/^ws/, 'http'), {
+      headers: { ...headers, Upgrade: 'websocket' },
+    });
+
+    const socket = (
+      response as Response & {
+        webSocket?: (WebSocketLike & { accept(): void }) | null;
+      }
+    ).webSocket;
+    if (!socket) {
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        responseHeaders[key] = value;
+      });
+      throw new WebSocketHandshakeError({
+        status: response.status,
+        headers: responseHeaders,
+        body: await response.text(),
+      });
+    }
+
+    socket.accept();
+    return socket;
+  };
+}
+
+/**
+ * Picks a factory for the current runtime: `ws` on Node.js, the global
+ * `WebSocket` with headers on Bun and Deno, and the global `WebSocket`
+ * with subprotocol authentication everywhere else.
+ */
+export function createDefaultWebSocketFactory(): WebSocketFactory {
+  const runtime = globalThis as { Bun?: unknown; Deno?: unknown };
+  if (runtime.Bun !== undefined || runtime.Deno !== undefined) {
+    return createGlobalWebSocketFactory({ auth: 'headers' });
+  }
+
+  if (
+    typeof process !== 'undefined' &&
+    process.versions?.node !== undefined &&
+    typeof EdgeRuntime === 'undefined'
+  ) {
+    return createNodeWebSocketFactory();
+  }
+
+  return createGlobalWebSocketFactory();
+}
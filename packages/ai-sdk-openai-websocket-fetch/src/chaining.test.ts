@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  post,
+  readEvents,
+  respond,
+  responseEvents,
+  useMockServer,
+} from './test/mock-server';
+
+const mock = useMockServer(undefined, {
+  fallback: false,
+  reconnect: { initialDelay: 1, jitter: false },
+});
+
+describe('chainResponses', () => {
+  const user = { role: 'user', content: 'Hello' };
+  const next = { role: 'user', content: 'And then?' };
+
+  // the AI SDK sends the previous output back as input items
+  function history(first: Record<string, any>) {
+    const [message] = first.response.output;
+    return [user, { ...message, role: 'assistant' }, next];
+  }
+
+  it('sends only the new input items with previous_response_id', async () => {
+    const first = responseEvents();
+    mock.server.handle((message, connection) => {
+      const events = connection.messages.length === 1 ? first : undefined;
+      for (const event of events ?? responseEvents()) {
+        connection.send(event);
+      }
+    });
+    const wsFetch = mock.create({ chainResponses: true });
+
+    await (await post(wsFetch, { input: [user] })).text();
+    await (await post(wsFetch, { input: history(first[2]) })).text();
+
+    expect(mock.server.messages[1]).toMatchObject({
+      previous_response_id: first[2].response.id,
+      input: [next],
+    });
+  });
+
+  it('resends the full request when the previous response is gone', async () => {
+    const first = responseEvents();
+    mock.server.handle((message, connection) => {
+      if (connection.messages.length === 1) {
+        for (const event of first) connection.send(event);
+      } else if (message.previous_response_id) {
+        connection.send({
+          type: 'error',
+          error: {
+            type: 'invalid_request_error',
+            code: 'previous_response_not_found',
+            message: 'Previous response not found',
+          },
+        });
+      } else {
+        respond(message, connection);
+      }
+    });
+    const wsFetch = mock.create({ chainResponses: true });
+
+    await (await post(wsFetch, { input: [user] })).text();
+    const response = await post(wsFetch, { input: history(first[2]) });
+    const events = await readEvents(response);
+
+    expect(events.at(-1)?.type).toBe('response.completed');
+    expect(mock.server.messages).toHaveLength(3);
+    expect(mock.server.messages[2]).not.toHaveProperty(
+      'previous_response_id',
+    );
+    expect(mock.server.messages[2].input).toEqual(history(first[2]));
+  });
+});
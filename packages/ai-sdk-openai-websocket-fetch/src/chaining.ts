@@ -0,0 +1,148 @@
+import { isRecord, valueAt } from './events';
+
+/**
+ * The last completed response of a connection, with the full input it
+ * was created from.
+ */
+export interface ChainedTurn {
+  responseId: string;
+  input: unknown[];
+  output: unknown[];
+}
+
+/**
+ * The turn to remember after a `response.completed` event, if the request
+ * can be continued from it.
+ */
+export function completedTurn(
+  body: Record<string, unknown>,
+  event: Record<string, unknown> | undefined,
+): ChainedTurn | undefined {
+  const response = event?.response;
+  if (
+    event?.type !== 'response.completed' ||
+    !isRecord(response) ||
+    typeof response.id !== 'string' ||
+    !Array.isArray(body.input)
+  ) {
+    return undefined;
+  }
+
+  return {
+    responseId: response.id,
+    input: body.input,
+    output: Array.isArray(response.output) ? response.output : [],
+  };
+}
+
+/**
+ * Rewrites a request that continues `previous` to send only its new input
+ * items with `previous_response_id`.
+ *
+ * The AI SDK sends the whole conversation on every step: the previous
+ * input, the previous response's output converted back to input items,
+ * and the new items (tool results or a new user message). The request is
+ * only rewritten if it has exactly that shape. Returns `undefined` when
+ * the history diverges, so the full request is sent instead.
+ */
+export function chainRequest(
+  body: Record<string, unknown>,
+  previous: ChainedTurn | undefined,
+): Record<string, unknown> | undefined {
+  const input = body.input;
+  if (
+    !previous ||
+    !Array.isArray(input) ||
+    body.previous_response_id != null ||
+    input.length <= previous.input.length
+  ) {
+    return undefined;
+  }
+
+  for (let i = 0; i < previous.input.length; i++) {
+    if (!isEqual(input[i], previous.input[i])) return undefined;
+  }
+
+  let start = previous.input.length;
+  while (
+    start < input.length &&
+    isOutputItem(input[start]) &&
+    matchesOutput(input[start], previous.output)
+  ) {
+    start++;
+  }
+
+  const delta = input.slice(start);
+
+  // an output item that does not match the previous response means the
+  // history was edited, and sending it again would duplicate context
+  if (delta.length === 0 || delta.some(isOutputItem)) return undefined;
+
+  return {
+    ...body,
+    input: delta,
+    previous_response_id: previous.responseId,
+  };
+}
+
+/**
+ * Whether an error event reports that `previous_response_id` cannot be
+ * resolved, e.g. because the connection was reset and the response was
+ * not stored.
+ */
+export function isPreviousResponseNotFound(
+  event: Record<string, unknown> | undefined,
+): boolean {
+  const error = isRecord(event?.error) ? event.error : event;
+  return error?.code === 'previous_response_not_found';
+}
+
+// an item the model produced: an assistant message, or a call such as
+// `function_call`, as opposed to user input or a `*_output` result
+function isOutputItem(item: unknown): item is Record<string, unknown> {
+  if (!isRecord(item)) return false;
+  if (item.role === 'assistant') return true;
+  return (
+    typeof item.type === 'string' &&
+    item.type !== 'message' &&
+    !item.type.endsWith('_output')
+  );
+}
+
+function matchesOutput(
+  item: Record<string, unknown>,
+  output: unknown[],
+): boolean {
+  return output.some(candidate => {
+    if (!isRecord(candidate)) return false;
+    if (item.id != null) return item.id === candidate.id;
+    if (item.type === 'function_call') {
+      return (
+        candidate.type === 'function_call' &&
+        candidate.call_id === item.call_id
+      );
+    }
+    if (item.role === 'assistant') {
+      return (
+        candidate.type === 'message' &&
+        textOf(candidate.content) === textOf(item.content)
+      );
+    }
+    return false;
+  });
+}
+
+function textOf(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(part => {
+      const text = valueAt(part, 'text');
+      return typeof text === 'string' ? text : '';
+    })
+    .join('');
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
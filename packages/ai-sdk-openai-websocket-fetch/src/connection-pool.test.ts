@@ -0,0 +1,155 @@
+import type { Socket } from 'node:net';
+import { describe, expect, it } from 'vitest';
+import WebSocket from 'ws';
+import { post, responseEvents, useMockServer } from './test/mock-server';
+
+// `slow` requests take a while, others complete right away
+const mock = useMockServer(
+  (message, connection) => {
+    const [created, delta, completed] = responseEvents();
+    connection.send(created);
+    connection.send(delta);
+    setTimeout(
+      () => connection.send(completed),
+      message.model === 'slow' ? 300 : 20,
+    );
+  },
+  { fallback: false },
+);
+
+// runs the requests at once and returns their names in order of completion
+async function completionOrder(
+  requests: { name: string; model?: string; key?: string }[],
+): Promise<string[]> {
+  const order: string[] = [];
+  await Promise.all(
+    requests.map(async ({ name, model = 'fast', key = 'a' }) => {
+      const response = await post(
+        mock.wsFetch,
+        { model },
+        { headers: { authorization: `Bearer ${key}` } },
+      );
+      await response.text();
+      order.push(name);
+    }),
+  );
+  return order;
+}
+
+describe('queueing', () => {
+  it('serves a queued request from whichever connection frees first', async () => {
+    const wsFetch = mock.create({
+      maxConnections: 2,
+      maxConnectionsPerKey: 2,
+    });
+
+    const order = await completionOrder([
+      { name: 'long', model: 'slow' },
+      { name: 'short1' },
+      { name: 'short2' },
+    ]);
+
+    expect(order).toEqual(['short1', 'short2', 'long']);
+    expect(mock.server.connections).toHaveLength(2);
+  });
+});
+
+describe('identities', () => {
+  it('keeps a connection free for another identity by default', async () => {
+    const wsFetch = mock.create({ maxConnections: 2 });
+
+    const order = await completionOrder([
+      { name: 'a1', model: 'slow' },
+      { name: 'a2', model: 'slow' },
+      { name: 'b1', key: 'b' },
+    ]);
+
+    expect(order).toEqual(['b1', 'a1', 'a2']);
+    expect(mock.server.connections).toHaveLength(2);
+  });
+
+  it('hands a freed connection to an identity without one', async () => {
+    const wsFetch = mock.create({
+      maxConnections: 2,
+      maxConnectionsPerKey: 2,
+    });
+
+    const order = await completionOrder([
+      { name: 'a1' },
+      { name: 'a2' },
+      { name: 'a3' },
+      { name: 'a4' },
+      { name: 'a5' },
+      { name: 'b1', key: 'b' },
+      { name: 'a6' },
+    ]);
+
+    expect(order.indexOf('b1')).toBeLessThan(order.indexOf('a4'));
+    expect(order.indexOf('b1')).toBeLessThan(order.indexOf('a6'));
+  });
+});
+
+describe('reconnect', () => {
+  it('keeps the slot of a failed connection while it waits to retry', async () => {
+    mock.server.rejectHandshakes(1);
+    const wsFetch = mock.create({
+      maxConnections: 1,
+      reconnect: { initialDelay: 100, jitter: false },
+    });
+
+    const a = post(
+      wsFetch,
+      {},
+      { headers: { authorization: 'Bearer a' } },
+    );
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const b = post(
+      wsFetch,
+      {},
+      { headers: { authorization: 'Bearer b' } },
+    );
+    await Promise.all([(await a).text(), (await b).text()]);
+
+    expect(
+      mock.server.handshakes.map(headers => headers.authorization),
+    ).toEqual(['Bearer a', 'Bearer a', 'Bearer b']);
+  });
+});
+
+describe('idle connections', () => {
+  it('do not keep the process alive', async () => {
+    const calls: string[] = [];
+    const wsFetch = mock.create({
+      createWebSocket(url, init) {
+        const ws = new WebSocket(url, { headers: init.headers });
+        ws.once('open', () => {
+          const socket = (ws as unknown as { _socket: Socket })._socket;
+          socket.ref = () => (calls.push('ref'), socket);
+          socket.unref = () => (calls.push('unref'), socket);
+        });
+        return ws;
+      },
+    });
+
+    await (await post(wsFetch)).text();
+    expect(calls).toEqual(['unref']);
+
+    await (await post(wsFetch)).text();
+    expect(calls).toEqual(['unref', 'ref', 'unref']);
+  });
+});
+
+describe('close', () => {
+  it('fails requests in progress and opens new connections after', async () => {
+    const wsFetch = mock.create();
+
+    const response = await post(wsFetch, { model: 'slow' });
+    wsFetch.close();
+    await expect(response.text()).rejects.toThrow(
+      'WebSocket connection closed before the response completed',
+    );
+
+    await (await post(wsFetch)).text();
+    expect(mock.server.connections).toHaveLength(2);
+  });
+});
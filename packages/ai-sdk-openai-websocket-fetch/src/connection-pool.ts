@@ -0,0 +1,631 @@
+import { type Dispatcher, createDispatcher } from './dispatcher';
+import {
+  WebSocketHandshakeError,
+  WebSocketProtocolVersionError,
+  isProtocolVersionRejection,
+  isRetryableConnectError,
+} from './errors';
+import { requestedProtocolVersion } from './handshake';
+import { type WebSocketFetchHooks, callHook } from './hooks';
+import {
+  type Heartbeat,
+  type HeartbeatOptions,
+  createHeartbeat,
+} from './heartbeat';
+import { type ConnectionLifetimeOptions } from './lifetime';
+import {
+  type ReconnectOptions,
+  type RetryBudget,
+  createRetryBudget,
+} from './reconnect';
+import {
+  READY_STATE,
+  type TransportSocket,
+  type WebSocketFactory,
+  createTransportSocket,
+} from './socket';
+
+export interface ConnectionPoolOptions {
+  /** Creates the WebSocket of a new connection. */
+  createWebSocket: WebSocketFactory;
+
+  /** Maximum size of a received message in bytes. */
+  maxPayload: number;
+
+  /** Whether to negotiate permessage-deflate compression. */
+  perMessageDeflate: boolean;
+
+  /** Maximum number of open (or opening) connections. */
+  maxConnections: number;
+
+  /** Maximum number of open (or opening) connections per identity. */
+  maxConnectionsPerKey: number;
+
+  /** When connections are retired. */
+  lifetime: Required<ConnectionLifetimeOptions>;
+
+  /** Backoff policy for failed connection attempts. */
+  reconnect: Required<ReconnectOptions>;
+
+  /** Keepalive policy, or `null` to disable pings. */
+  heartbeat: Required<HeartbeatOptions> | null;
+
+  hooks: Pick<WebSocketFetchHooks, 'onConnect' | 'onReuse' | 'onClose'>;
+}
+
+/**
+ * The endpoint and handshake headers of a connection. Connections are
+ * only shared between requests whose identities are identical.
+ */
+export interface ConnectionIdentity {
+  /** WebSocket endpoint URL. */
+  url: string;
+
+  /** Handshake headers, with lowercase names. */
+  headers: Record<string, string>;
+}
+
+/**
+ * Exclusive access to a pooled connection. The Responses API processes one
+ * response at a time per socket, so a lease must be released before the
+ * connection can serve the next request.
+ */
+export interface ConnectionLease {
+  connectionId: number;
+  /** Whether the connection was already open before this lease. */
+  reused: boolean;
+  /** Handshake timing (ms since epoch) of a connection opened for this lease. */
+  handshake: { startTime: number; endTime: number } | undefined;
+  socket: TransportSocket;
+  dispatcher: Dispatcher;
+  release(): void;
+}
+
+interface Waiter {
+  identity: ConnectionIdentity;
+  budget: RetryBudget | undefined;
+  resolve(lease: ConnectionLease): void;
+  reject(err: unknown): void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+interface PooledConnection {
+  id: number;
+  key: string;
+  socket: TransportSocket;
+  dispatcher: Dispatcher;
+  heartbeat: Heartbeat | null;
+  ready: Promise<TransportSocket>;
+  busy: boolean;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+  lastUsedAt: number;
+  startTime: number;
+  openedAt: number | null;
+  requestCount: number;
+  // opened by `preconnect` and not yet claimed by a request
+  warming: boolean;
+}
+
+export function identityKey(identity: ConnectionIdentity): string {
+  return JSON.stringify([
+    identity.url,
+    ...Object.entries(identity.headers).sort(([a], [b]) =>
+      a < b ? -1 : a > b ? 1 : 0,
+    ),
+  ]);
+}
+
+/**
+ * Creates a bounded pool of WebSocket connections, partitioned by
+ * identity so a socket authenticated for one tenant never carries another
+ * tenant's request.
+ *
+ * Requests are served by an idle open connection of the same identity
+ * when one exists. Otherwise a new connection is opened while both the
+ * pool and the identity are below their limits, evicting the least
+ * recently used idle connection of another identity if the pool is full.
+ * When no connection can be opened, the request waits in its identity's
+ * queue, which is served in FIFO order by whichever connection of the
+ * identity frees up first, or by a new connection once the pool has room.
+ *
+ * While identities wait for room, a freed connection is handed to the
+ * waiting identity with the fewest connections if that one has none, or
+ * at least two fewer than the freed connection's identity. Busy tenants
+ * thus converge to equal shares of the pool, and a tenant without a
+ * connection gets the next one that frees up.
+ */
+export function createConnectionPool(options: ConnectionPoolOptions) {
+  const connections = new Set<PooledConnection>();
+  // requests waiting for a connection, by identity
+  const queues = new Map<string, Waiter[]>();
+  // incremented by `close`, which ends connection attempts started before
+  let generation = 0;
+  // set by a graceful `close`, connections are closed instead of idling
+  let closing = false;
+  let nextConnectionId = 1;
+
+  function openConnection(identity: ConnectionIdentity): PooledConnection {
+    const startTime = Date.now();
+    const socket = createTransportSocket(
+      options.createWebSocket,
+      identity.url,
+      {
+        headers: identity.headers,
+        maxPayload: options.maxPayload,
+        perMessageDeflate: options.perMessageDeflate,
+      },
+    );
+
+    const connection: PooledConnection = {
+      id: nextConnectionId++,
+      key: identityKey(identity),
+      socket,
+      dispatcher: createDispatcher(socket),
+      heartbeat: null,
+      ready: new Promise<TransportSocket>((resolve, reject) => {
+        socket.once('open', () => {
+          connection.openedAt = Date.now();
+          callHook(options.hooks.onConnect, {
+            connectionId: connection.id,
+            url: identity.url,
+            startTime,
+            durationMs: connection.openedAt - startTime,
+          });
+
+          // pings need a socket that exposes them, e.g. not a browser one
+          if (options.heartbeat && socket.ping) {
+            connection.heartbeat = createHeartbeat(
+              socket,
+              options.heartbeat,
+            );
+          }
+          resolve(socket);
+        });
+        socket.once('error', reject);
+        socket.once('close', () =>
+          reject(new Error('WebSocket closed before it opened')),
+        );
+      }),
+      busy: true,
+      idleTimer: null,
+      lastUsedAt: Date.now(),
+      startTime,
+      openedAt: null,
+      requestCount: 0,
+      warming: false,
+    };
+
+    // the handshake error is surfaced through `ready`
+    connection.ready.catch(() => {});
+
+    socket.on('close', (code, reason) => {
+      clearIdleTimer(connection);
+      // a failed handshake is handled by `connect`, which may retry it
+      if (connection.openedAt == null) return;
+      connections.delete(connection);
+
+      callHook(options.hooks.onClose, {
+        connectionId: connection.id,
+        code,
+        reason,
+        lifetimeMs: Date.now() - connection.openedAt,
+        requestCount: connection.requestCount,
+      });
+
+      // the freed slot can take a waiting request
+      openForWaiting();
+    });
+
+    connections.add(connection);
+    return connection;
+  }
+
+  /**
+   * Opens connections for waiting requests while the pool has room, e.g.
+   * after a connection closed or went idle.
+   */
+  function openForWaiting() {
+    for (;;) {
+      const key = nextWaitingIdentity();
+      if (
+        key === undefined ||
+        (connections.size >= options.maxConnections && !evictIdle())
+      ) {
+        return;
+      }
+
+      const waiter = dequeue(key)!;
+      connect(waiter.identity, waiter.signal, waiter.budget).then(
+        connection => waiter.resolve(createLease(connection, false)),
+        waiter.reject,
+      );
+    }
+  }
+
+  /**
+   * The identity with waiting requests and the fewest connections that is
+   * below its connection limit, the longest waiting one among equals.
+   */
+  function nextWaitingIdentity(except?: string): string | undefined {
+    let next: string | undefined;
+    let fewest = options.maxConnectionsPerKey;
+    for (const key of queues.keys()) {
+      const count = countOf(key);
+      if (key !== except && count < fewest) {
+        next = key;
+        fewest = count;
+      }
+    }
+    return next;
+  }
+
+  function createLease(
+    connection: PooledConnection,
+    reused: boolean,
+  ): ConnectionLease {
+    let released = false;
+    connection.requestCount++;
+    return {
+      connectionId: connection.id,
+      reused,
+      handshake:
+        !reused && connection.openedAt != null
+          ? {
+              startTime: connection.startTime,
+              endTime: connection.openedAt,
+            }
+          : undefined,
+      socket: connection.socket,
+      dispatcher: connection.dispatcher,
+      release() {
+        if (released) return;
+        released = true;
+        handOff(connection);
+      },
+    };
+  }
+
+  function handOff(connection: PooledConnection) {
+    connection.lastUsedAt = Date.now();
+
+    if (connection.socket.readyState !== READY_STATE.OPEN) {
+      connection.busy = false;
+      return;
+    }
+
+    if (isExpired(connection)) {
+      // its waiters get a new connection once the socket has closed
+      connection.busy = false;
+      retire(connection);
+      return;
+    }
+
+    const other = nextWaitingIdentity(connection.key);
+    if (other !== undefined) {
+      const count = countOf(other);
+      if (count === 0 || count < countOf(connection.key) - 1) {
+        // the slot goes to a tenant with a smaller share of the pool
+        connection.busy = false;
+        retire(connection);
+        openForWaiting();
+        return;
+      }
+    }
+
+    const next = dequeue(connection.key);
+    if (next) {
+      next.resolve(reuse(connection));
+      return;
+    }
+
+    if (closing) {
+      connection.busy = false;
+      retire(connection);
+      openForWaiting();
+      return;
+    }
+
+    connection.busy = false;
+    clearIdleTimer(connection);
+    // an idle connection does not keep the process from exiting, so
+    // `beforeExit` can fire and close it
+    connection.socket.unref?.();
+
+    const { maxIdle, maxAge } = options.lifetime;
+    const delay = Math.min(maxIdle, maxAge - age(connection));
+    if (Number.isFinite(delay)) {
+      connection.idleTimer = setTimeout(() => {
+        connection.idleTimer = null;
+        if (!connection.busy) connection.socket.close();
+      }, delay);
+      connection.idleTimer.unref?.();
+    }
+
+    // an idle connection can be evicted to make room for another identity
+    openForWaiting();
+  }
+
+  function reuse(connection: PooledConnection): ConnectionLease {
+    connection.socket.ref?.();
+    callHook(options.hooks.onReuse, {
+      connectionId: connection.id,
+      idleMs: Date.now() - connection.lastUsedAt,
+      requestCount: connection.requestCount,
+    });
+    return createLease(connection, true);
+  }
+
+  function age(connection: PooledConnection): number {
+    return Date.now() - (connection.openedAt ?? connection.startTime);
+  }
+
+  function isExpired(connection: PooledConnection): boolean {
+    return (
+      connection.requestCount >= options.lifetime.maxRequests ||
+      age(connection) >= options.lifetime.maxAge
+    );
+  }
+
+  function retire(connection: PooledConnection) {
+    clearIdleTimer(connection);
+    connections.delete(connection);
+    connection.socket.close();
+  }
+
+  function clearIdleTimer(connection: PooledConnection) {
+    if (connection.idleTimer) {
+      clearTimeout(connection.idleTimer);
+      connection.idleTimer = null;
+    }
+  }
+
+  function detachAbort(waiter: Waiter) {
+    if (waiter.onAbort) {
+      waiter.signal?.removeEventListener('abort', waiter.onAbort);
+    }
+  }
+
+  function countOf(key: string): number {
+    let count = 0;
+    for (const connection of connections) {
+      if (connection.key === key) count++;
+    }
+    return count;
+  }
+
+  function dequeue(key: string): Waiter | undefined {
+    const queue = queues.get(key);
+    const waiter = queue?.shift();
+    if (queue?.length === 0) queues.delete(key);
+    if (waiter) detachAbort(waiter);
+    return waiter;
+  }
+
+  function evictIdle(): boolean {
+    let victim: PooledConnection | undefined;
+    for (const connection of connections) {
+      if (
+        !connection.busy &&
+        (!victim || connection.lastUsedAt < victim.lastUsedAt)
+      ) {
+        victim = connection;
+      }
+    }
+    if (!victim) return false;
+
+    retire(victim);
+    return true;
+  }
+
+  /**
+   * Opens a connection, retrying failed attempts within `budget`. A failed
+   * connection keeps its slot in the pool until the next attempt replaces
+   * it, so waiting requests cannot take it during the backoff delay.
+   */
+  async function connect(
+    identity: ConnectionIdentity,
+    signal?: AbortSignal,
+    budget = createRetryBudget(options.reconnect),
+    warming = false,
+  ): Promise<PooledConnection> {
+    const started = generation;
+    for (;;) {
+      const connection = openConnection(identity);
+      connection.warming = warming;
+      try {
+        await connection.ready;
+        connection.warming = false;
+        return connection;
+      } catch (err) {
+        try {
+          if (
+            err instanceof WebSocketHandshakeError &&
+            isProtocolVersionRejection(err)
+          ) {
+            throw new WebSocketProtocolVersionError(
+              err,
+              requestedProtocolVersion(identity.headers),
+            );
+          }
+          if (
+            generation !== started ||
+            budget.remaining <= 0 ||
+            !isRetryableConnectError(err)
+          ) {
+            throw err;
+          }
+
+          await budget.wait(signal);
+          if (generation !== started) {
+            throw new Error('WebSocket fetch has been closed');
+          }
+        } catch (error) {
+          connections.delete(connection);
+          openForWaiting();
+          throw error;
+        }
+        connections.delete(connection);
+      }
+    }
+  }
+
+  function enqueue(
+    key: string,
+    identity: ConnectionIdentity,
+    signal: AbortSignal | undefined,
+    budget: RetryBudget | undefined,
+  ): Promise<ConnectionLease> {
+    return new Promise<ConnectionLease>((resolve, reject) => {
+      const waiter: Waiter = { identity, budget, resolve, reject, signal };
+
+      if (signal) {
+        waiter.onAbort = () => {
+          const queue = queues.get(key);
+          const index = queue?.indexOf(waiter) ?? -1;
+          if (index !== -1) queue!.splice(index, 1);
+          if (queue?.length === 0) queues.delete(key);
+          reject(
+            signal.reason ?? new DOMException('Aborted', 'AbortError'),
+          );
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      const queue = queues.get(key);
+      if (queue) {
+        queue.push(waiter);
+      } else {
+        queues.set(key, [waiter]);
+      }
+    });
+  }
+
+  /**
+   * Leases a connection for `identity`. `prefer` picks among idle
+   * connections, e.g. the one that holds the previous response. Failed
+   * connection attempts are retried within `budget`, by default a new
+   * budget of `reconnect.maxRetries` retries.
+   */
+  async function acquire(
+    identity: ConnectionIdentity,
+    signal?: AbortSignal,
+    prefer?: (socket: TransportSocket) => boolean,
+    budget?: RetryBudget,
+  ): Promise<ConnectionLease> {
+    signal?.throwIfAborted();
+
+    const key = identityKey(identity);
+
+    for (;;) {
+      const idle = [...connections].filter(
+        c =>
+          c.key === key &&
+          !c.busy &&
+          c.socket.readyState === READY_STATE.OPEN,
+      );
+      const connection =
+        (prefer && idle.find(c => prefer(c.socket))) || idle[0];
+      if (!connection) break;
+
+      // timers do not fire while a serverless instance is frozen
+      if (isExpired(connection)) {
+        retire(connection);
+        continue;
+      }
+
+      connection.busy = true;
+      clearIdleTimer(connection);
+
+      if (
+        !connection.heartbeat ||
+        (await connection.heartbeat.isAlive())
+      ) {
+        return reuse(connection);
+      }
+
+      // half-open, the heartbeat has terminated it
+      connections.delete(connection);
+    }
+
+    const own = [...connections].filter(c => c.key === key);
+    const waiting = queues.get(key)?.length ?? 0;
+
+    // a preconnected socket that is still opening is faster than a new one
+    if (own.filter(c => c.warming).length > waiting) {
+      return enqueue(key, identity, signal, budget);
+    }
+
+    if (
+      own.length < options.maxConnectionsPerKey &&
+      (connections.size < options.maxConnections || evictIdle())
+    ) {
+      return createLease(await connect(identity, signal, budget), false);
+    }
+
+    return enqueue(key, identity, signal, budget);
+  }
+
+  /**
+   * Opens an idle connection for `identity` ahead of the first request.
+   * Resolves once a connection for it is open. Does nothing if one is
+   * already open or opening, or if the pool has no room for it.
+   */
+  async function preconnect(
+    identity: ConnectionIdentity,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const key = identityKey(identity);
+    const own = [...connections].filter(c => c.key === key);
+
+    const warming = own.find(c => c.warming);
+    if (warming) {
+      await warming.ready;
+      return;
+    }
+
+    if (
+      own.some(c => c.socket.readyState === READY_STATE.OPEN) ||
+      own.length >= options.maxConnectionsPerKey ||
+      (connections.size >= options.maxConnections && !evictIdle())
+    ) {
+      return;
+    }
+
+    handOff(await connect(identity, signal, undefined, true));
+  }
+
+  /**
+   * Closes all connections and fails the waiting requests. Later requests
+   * open new connections.
+   *
+   * A graceful close lets requests finish instead: idle connections are
+   * closed right away, and busy ones once no request waits for them.
+   */
+  function close({ graceful = false }: { graceful?: boolean } = {}) {
+    if (graceful) {
+      closing = true;
+      for (const connection of [...connections]) {
+        if (!connection.busy) retire(connection);
+      }
+      return;
+    }
+
+    closing = false;
+    generation++;
+    const waiters = [...queues.values()].flat();
+    queues.clear();
+    for (const connection of connections) {
+      clearIdleTimer(connection);
+      connection.socket.close();
+    }
+    connections.clear();
+
+    for (const waiter of waiters) {
+      detachAbort(waiter);
+      waiter.reject(new Error('WebSocket fetch has been closed'));
+    }
+  }
+
+  return { acquire, preconnect, close };
+}
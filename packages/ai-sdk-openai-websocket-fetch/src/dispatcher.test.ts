@@ -0,0 +1,108 @@
+import { EventEmitter } from 'node:events';
+import { expect, it } from 'vitest';
+import { type Frame, createDispatcher } from './dispatcher';
+import type { TransportSocket } from './socket';
+
+// a socket whose messages are emitted by the test
+function createSocket() {
+  const emitter = new EventEmitter();
+  return {
+    socket: emitter as unknown as TransportSocket,
+    receive(event: Record<string, unknown> | string) {
+      emitter.emit(
+        'message',
+        typeof event === 'string' ? event : JSON.stringify(event),
+      );
+    },
+  };
+}
+
+function collect() {
+  const frames: Frame[] = [];
+  return { frames, onFrame: (frame: Frame) => frames.push(frame) };
+}
+
+it('drops late frames of an abandoned response', async () => {
+  const { socket, receive } = createSocket();
+  const dispatcher = createDispatcher(socket);
+
+  const first = dispatcher.subscribe(() => {});
+  receive({ type: 'response.created', response: { id: 'resp_1' } });
+  const drained = first.abandon();
+  receive({ type: 'response.output_text.delta', response_id: 'resp_1' });
+  receive({ type: 'response.cancelled', response: { id: 'resp_1' } });
+  await drained;
+
+  const second = collect();
+  const subscription = dispatcher.subscribe(second.onFrame);
+  // sent by the server after it had cancelled the response
+  receive({ type: 'response.output_text.delta', response_id: 'resp_1' });
+  receive({ type: 'response.created', response: { id: 'resp_2' } });
+  receive({ type: 'response.output_text.delta', response_id: 'resp_1' });
+
+  expect(await subscription.started).toBe('resp_2');
+  expect(second.frames.map(frame => frame.event)).toEqual([
+    { type: 'response.created', response: { id: 'resp_2' } },
+  ]);
+});
+
+it('drops frames of a response abandoned before it started', async () => {
+  const { socket, receive } = createSocket();
+  const dispatcher = createDispatcher(socket);
+
+  const drained = dispatcher.subscribe(() => {}).abandon();
+  receive({ type: 'response.created', response: { id: 'resp_1' } });
+  receive({ type: 'response.completed', response: { id: 'resp_1' } });
+  await drained;
+
+  const next = collect();
+  dispatcher.subscribe(next.onFrame);
+  receive({ type: 'response.output_text.delta', response_id: 'resp_1' });
+  expect(next.frames).toEqual([]);
+});
+
+it('drops frames with a repeated sequence number', () => {
+  const { socket, receive } = createSocket();
+  const { frames, onFrame } = collect();
+  createDispatcher(socket).subscribe(onFrame);
+
+  for (const sequence of [0, 1, 1, 0, 2]) {
+    receive({
+      type: 'response.output_text.delta',
+      response_id: 'resp_1',
+      sequence_number: sequence,
+    });
+  }
+
+  expect(frames.map(frame => frame.event?.sequence_number)).toEqual([
+    0, 1, 2,
+  ]);
+});
+
+it('delivers a malformed frame without an event', () => {
+  const { socket, receive } = createSocket();
+  const { frames, onFrame } = collect();
+  createDispatcher(socket).subscribe(onFrame);
+
+  receive('not json');
+  receive('[1, 2]');
+
+  expect(frames).toEqual([
+    { text: 'not json', event: undefined },
+    { text: '[1, 2]', event: undefined },
+  ]);
+});
+
+it('carries one response at a time', () => {
+  const { socket, receive } = createSocket();
+  const dispatcher = createDispatcher(socket);
+
+  const subscription = dispatcher.subscribe(() => {});
+  expect(() => dispatcher.subscribe(() => {})).toThrow(
+    'Connection is already carrying a response',
+  );
+
+  receive({ type: 'response.completed', response: { id: 'resp_1' } });
+  subscription.close();
+  expect(() => dispatcher.subscribe(() => {})).not.toThrow();
+});
@@ -0,0 +1,166 @@
+import { isRecord, isTerminalEvent } from './events';
+import type { TransportSocket } from './socket';
+
+/** A WebSocket message together with its parsed event. */
+export interface Frame {
+  text: string;
+
+  /** Undefined if the message is not a JSON object, i.e. malformed. */
+  event: Record<string, unknown> | undefined;
+}
+
+/**
+ * Receives the frames of a single response from a connection's dispatcher.
+ */
+export interface Subscription {
+  /** Id of the response, known once its first lifecycle event arrived. */
+  readonly responseId: string | undefined;
+
+  /** Resolves with the response id once the response has started. */
+  readonly started: Promise<string>;
+
+  /** Stop receiving frames after the response ended. */
+  close(): void;
+
+  /**
+   * Stop receiving frames before the response ended. Its remaining frames
+   * are dropped, and the returned promise resolves once its terminal event
+   * arrived or the connection closed, after which the connection can serve
+   * the next response.
+   */
+  abandon(): Promise<void>;
+}
+
+interface Route {
+  responseId: string | undefined;
+  started: Promise<string>;
+  resolveStarted: (responseId: string) => void;
+  lastSequence: number;
+  onFrame: ((frame: Frame) => void) | null;
+  drained: Promise<void> | undefined;
+  resolveDrained: (() => void) | undefined;
+}
+
+// ids of abandoned responses are remembered this long to drop late frames
+const MAX_STALE_RESPONSES = 16;
+
+/**
+ * Routes the frames of a connection to the response they belong to.
+ *
+ * A connection carries one response at a time, so frames go to the active
+ * subscription. Lifecycle events bind the subscription to a response id,
+ * and frames that carry a different id, such as late frames of an
+ * abandoned response, are dropped instead of leaking into the next
+ * response's stream.
+ *
+ * Frames are delivered in the order they arrive. Frames whose
+ * `sequence_number` is not greater than the last delivered one are
+ * duplicates and are dropped, so a consumer sees strictly increasing
+ * sequence numbers.
+ */
+export function createDispatcher(socket: TransportSocket) {
+  let active: Route | null = null;
+  const stale: string[] = [];
+
+  function markStale(responseId: string) {
+    stale.push(responseId);
+    if (stale.length > MAX_STALE_RESPONSES) stale.shift();
+  }
+
+  function endActive() {
+    const route = active;
+    active = null;
+    route?.resolveDrained?.();
+  }
+
+  function onMessage(text: string) {
+    let event: Record<string, unknown> | undefined;
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (isRecord(parsed)) event = parsed;
+    } catch {
+      // malformed frame, delivered without an event for the subscriber
+      // to reject
+    }
+
+    const responseId: unknown = isRecord(event?.response)
+      ? event.response.id
+      : event?.response_id;
+
+    const route = active;
+    if (!route) return;
+
+    if (
+      typeof responseId === 'string' &&
+      route.responseId !== responseId
+    ) {
+      // a late frame of an abandoned response, or of another response
+      if (route.responseId !== undefined || stale.includes(responseId)) {
+        return;
+      }
+      route.responseId = responseId;
+      route.resolveStarted(responseId);
+      if (!route.onFrame) markStale(responseId);
+    }
+
+    if (typeof event?.sequence_number === 'number') {
+      if (event.sequence_number <= route.lastSequence) return;
+      route.lastSequence = event.sequence_number;
+    }
+
+    if (isTerminalEvent(event)) endActive();
+
+    route.onFrame?.({ text, event });
+  }
+
+  socket.on('message', onMessage);
+  socket.on('close', endActive);
+
+  function subscribe(onFrame: (frame: Frame) => void): Subscription {
+    if (active) {
+      throw new Error('Connection is already carrying a response');
+    }
+
+    let resolveStarted!: (responseId: string) => void;
+    const route: Route = {
+      responseId: undefined,
+      started: new Promise<string>(resolve => {
+        resolveStarted = resolve;
+      }),
+      resolveStarted,
+      lastSequence: -1,
+      onFrame,
+      drained: undefined,
+      resolveDrained: undefined,
+    };
+    active = route;
+
+    return {
+      get responseId() {
+        return route.responseId;
+      },
+
+      started: route.started,
+
+      close() {
+        route.onFrame = null;
+        if (active === route) active = null;
+      },
+
+      abandon() {
+        route.onFrame = null;
+        if (route.responseId !== undefined) markStale(route.responseId);
+        if (active !== route) return Promise.resolve();
+
+        route.drained ??= new Promise<void>(resolve => {
+          route.resolveDrained = resolve;
+        });
+        return route.drained;
+      },
+    };
+  }
+
+  return { subscribe };
+}
+
+export type Dispatcher = ReturnType<typeof createDispatcher>;
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { errorEventToResponse } from './errors';
+import { post, useMockServer } from './test/mock-server';
+
+const mock = useMockServer(undefined, { fallback: false });
+
+describe('errorEventToResponse', () => {
+  it.each([
+    [{ error: { type: 'invalid_request_error' } }, 400],
+    [{ error: { type: 'authentication_error' } }, 401],
+    [{ error: { code: 'model_not_found', type: 'error' } }, 404],
+    [{ error: { code: 'rate_limit_exceeded' } }, 429],
+    [{ error: { type: 'server_error' } }, 500],
+    [{ code: 'server_overloaded' }, 503],
+    [{ status: 409, error: { type: 'server_error' } }, 409],
+    [{ error: { status: 402, code: 'unknown' } }, 402],
+    [{ error: { code: 'constructor' } }, 500],
+    [{ error: 'not an object' }, 500],
+  ])('maps %j to status %i', (details, status) => {
+    const response = errorEventToResponse({ type: 'error', ...details });
+    expect(response.status).toBe(status);
+  });
+
+  it('returns the body of the HTTP API error', async () => {
+    const response = errorEventToResponse({
+      type: 'error',
+      code: 'invalid_value',
+      message: 'Invalid value',
+      param: 'input',
+    });
+
+    expect(await response.json()).toEqual({
+      error: {
+        message: 'Invalid value',
+        type: null,
+        param: 'input',
+        code: 'invalid_value',
+      },
+    });
+  });
+
+  it('reads the wait time of a rate limit from the message', () => {
+    const response = errorEventToResponse({
+      type: 'error',
+      error: {
+        code: 'rate_limit_exceeded',
+        message: 'Rate limit reached. Please try again in 1.25s.',
+      },
+    });
+
+    expect(response.headers.get('retry-after-ms')).toBe('1250');
+    expect(response.headers.get('retry-after')).toBe('2');
+  });
+
+  it('prefers the headers sent with the event', () => {
+    const response = errorEventToResponse({
+      type: 'error',
+      headers: { 'retry-after': '7', 'x-request-id': 'req_1', bad: 1 },
+      error: {
+        code: 'rate_limit_exceeded',
+        message: 'Please try again in 820ms.',
+      },
+    });
+
+    expect(response.headers.get('retry-after')).toBe('7');
+    expect(response.headers.has('retry-after-ms')).toBe(false);
+    expect(response.headers.get('x-request-id')).toBe('req_1');
+    expect(response.headers.has('bad')).toBe(false);
+  });
+});
+
+describe('rejected handshakes', () => {
+  it('returns the response of an invalid API key', async () => {
+    const body = JSON.stringify({
+      error: { message: 'Invalid API key', code: 'invalid_api_key' },
+    });
+    mock.server.rejectHandshakes(1, 401, body);
+    const wsFetch = mock.create();
+
+    const response = await post(wsFetch);
+    expect(response.status).toBe(401);
+    expect(await response.text()).toBe(body);
+    expect(mock.server.handshakes).toHaveLength(1);
+  });
+
+  it('keeps the retry-after header of a rate limit', async () => {
+    mock.server.rejectHandshakes(
+      1,
+      429,
+      JSON.stringify({ error: { message: 'Too many connections' } }),
+      { 'retry-after': '3' },
+    );
+    const wsFetch = mock.create();
+
+    const response = await post(wsFetch);
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('3');
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual({
+      error: { message: 'Too many connections' },
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { isRecord } from './events';
+
+/**
+ * Thrown when the server rejects the WebSocket upgrade with an HTTP error
+ * response, e.g. 401 for an invalid API key or 429 when rate limited.
+ */
+export class WebSocketHandshakeError extends Error {
+  readonly status: number;
+  readonly headers: Record<string, string>;
+  readonly body: string;
+
+  constructor({
+    status,
+    headers,
+    body,
+  }: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+  }) {
+    super(`Unexpected server response: ${status}`);
+    this.name = 'WebSocketHandshakeError';
+    this.status = status;
+    this.headers = headers;
+    this.body = body;
+  }
+}
+
+/**
+ * Thrown when the server rejects the version of the WebSocket protocol
+ * requested with the `OpenAI-Beta` header, e.g. after the beta has been
+ * retired.
+ */
+export class WebSocketProtocolVersionError extends WebSocketHandshakeError {
+  /** The rejected `responses_websockets` version. */
+  readonly protocolVersion: string | undefined;
+
+  constructor(
+    error: WebSocketHandshakeError,
+    protocolVersion: string | undefined,
+  ) {
+    super(error);
+    this.name = 'WebSocketProtocolVersionError';
+    this.protocolVersion = protocolVersion;
+
+    const serverMessage = errorMessageOf(error.body);
+    this.message =
+      `The server rejected WebSocket protocol version ` +
+      `'responses_websockets=${protocolVersion ?? 'none'}'. ` +
+      `Set the \`protocolVersion\` option to a supported version.` +
+      (serverMessage ? ` Server response: ${serverMessage}` : '');
+  }
+}
+
+/**
+ * Thrown when the server sends a frame that cannot be read: a message
+ * larger than `maxPayload`, binary data that is not valid UTF-8, a
+ * message that is not a JSON event, or a violation of the WebSocket
+ * protocol. The connection is closed, since its remaining frames cannot
+ * be trusted, and the request fails instead of being replayed.
+ */
+export class WebSocketFrameError extends Error {
+  /** The frame as received, if it could be decoded. */
+  readonly data: string | undefined;
+
+  constructor(
+    message: string,
+    { data, cause }: { data?: string; cause?: unknown } = {},
+  ) {
+    super(message, { cause });
+    this.name = 'WebSocketFrameError';
+    this.data = data;
+  }
+}
+
+/**
+ * Thrown when a request cannot wait for the client-side rate limit: the
+ * queue is full, or the request waited longer than `queueTimeout`.
+ */
+export class RateLimitQueueError extends Error {
+  readonly code: 'queue_full' | 'queue_timeout';
+
+  constructor(code: 'queue_full' | 'queue_timeout', message: string) {
+    super(message);
+    this.name = 'RateLimitQueueError';
+    this.code = code;
+  }
+}
+
+/**
+ * Whether a rejected handshake is about the requested protocol version
+ * rather than the credentials or the request limits.
+ */
+export function isProtocolVersionRejection(
+  error: WebSocketHandshakeError,
+): boolean {
+  return (
+    error.status >= 400 &&
+    error.status < 500 &&
+    error.status !== 401 &&
+    error.status !== 403 &&
+    error.status !== 429 &&
+    /responses_websockets|openai-beta/i.test(error.body)
+  );
+}
+
+function errorMessageOf(body: string): string | undefined {
+  try {
+    const message = JSON.parse(body)?.error?.message;
+    if (typeof message === 'string') return message;
+  } catch {
+    // not a JSON error body
+  }
+  return body.trim() || undefined;
+}
+
+/**
+ * Whether a failed connection attempt is worth retrying. Client errors
+ * from the handshake (bad credentials, rate limits) are surfaced right
+ * away so the caller's own retry logic sees them.
+ */
+export function isRetryableConnectError(error: unknown): boolean {
+  if (error instanceof WebSocketHandshakeError) {
+    return error.status >= 500;
+  }
+  return true;
+}
+
+/**
+ * Converts a rejected handshake into the HTTP response the same request
+ * would have received from the HTTP endpoint.
+ */
+export function handshakeErrorToResponse(
+  error: WebSocketHandshakeError,
+): Response {
+  const headers = new Headers(error.headers);
+  headers.delete('content-length');
+  headers.delete('transfer-encoding');
+  headers.delete('connection');
+
+  if (!headers.has('content-type')) {
+    headers.set('content-type', 'application/json');
+  }
+
+  if (error instanceof WebSocketProtocolVersionError) {
+    headers.set('content-type', 'application/json');
+    const body = {
+      error: {
+        message: error.message,
+        type: 'invalid_request_error',
+        param: null,
+        code: 'unsupported_protocol_version',
+      },
+    };
+    return new Response(JSON.stringify(body), {
+      status: error.status,
+      headers,
+    });
+  }
+
+  return new Response(error.body, { status: error.status, headers });
+}
+
+const STATUS_BY_ERROR: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  invalid_api_key: 401,
+  permission_error: 403,
+  permission_denied: 403,
+  not_found_error: 404,
+  model_not_found: 404,
+  conflict_error: 409,
+  rate_limit_error: 429,
+  rate_limit_exceeded: 429,
+  insufficient_quota: 429,
+  server_error: 500,
+  api_error: 500,
+  server_overloaded: 503,
+  overloaded_error: 503,
+};
+
+/**
+ * Converts an `error` event received before any output into an HTTP error
+ * response with the status code, `retry-after` header and JSON body of the
+ * equivalent HTTP API error, so the AI SDK raises an `APICallError` and
+ * applies its usual retry logic.
+ */
+export function errorEventToResponse(
+  event: Record<string, unknown>,
+): Response {
+  // the error details are either nested or inlined on the event
+  const details = isRecord(event.error) ? event.error : event;
+
+  const error = {
+    message:
+      typeof details.message === 'string'
+        ? details.message
+        : 'Unknown error',
+    type: details.type === 'error' ? null : (details.type ?? null),
+    param: details.param ?? null,
+    code: details.code ?? null,
+  };
+
+  const status =
+    (typeof event.status === 'number' ? event.status : undefined) ??
+    (typeof details.status === 'number' ? details.status : undefined) ??
+    statusOf(error.code) ??
+    statusOf(error.type) ??
+    500;
+
+  const headers = new Headers({ 'content-type': 'application/json' });
+  if (isRecord(event.headers)) {
+    for (const [key, value] of Object.entries(event.headers)) {
+      if (typeof value === 'string') headers.set(key, value);
+    }
+  }
+
+  if (!headers.has('retry-after') && !headers.has('retry-after-ms')) {
+    const retryAfterMs = parseRetryAfterMs(error.message);
+    if (retryAfterMs != null) {
+      headers.set('retry-after-ms', String(retryAfterMs));
+      headers.set('retry-after', String(Math.ceil(retryAfterMs / 1000)));
+    }
+  }
+
+  return new Response(JSON.stringify({ error }), { status, headers });
+}
+
+function statusOf(name: unknown): number | undefined {
+  return typeof name === 'string' && Object.hasOwn(STATUS_BY_ERROR, name)
+    ? STATUS_BY_ERROR[name]
+    : undefined;
+}
+
+/**
+ * Rate limit messages carry the wait time in prose, e.g.
+ * "Please try again in 1.25s" or "Please try again in 820ms".
+ */
+function parseRetryAfterMs(message: string): number | undefined {
+  const match = /try again in (\d+(?:\.\d+)?)(ms|s)\b/i.exec(message);
+  if (!match) return undefined;
+
+  const value = Number(match[1]);
+  return Math.ceil(match[2].toLowerCase() === 'ms' ? value : value * 1000);
+}
@@ -0,0 +1,84 @@
+import type { RequestOutcome } from './hooks';
+
+/**
+ * Events that end a response. The server sends nothing more for the
+ * response afterwards, so the connection is free for the next request.
+ */
+const TERMINAL_EVENT_TYPES = new Set([
+  // the response finished normally
+  'response.completed',
+  // the model or the platform failed while generating
+  'response.failed',
+  // generation stopped early, e.g. at `max_output_tokens`
+  'response.incomplete',
+  // the response was cancelled
+  'response.cancelled',
+  // the request was rejected or failed outside of a response
+  'error',
+]);
+
+/**
+ * Whether `value` is a JSON object. Events and their fields come from the
+ * server as parsed JSON, so their shape is checked before use.
+ */
+export function isRecord(
+  value: unknown,
+): value is Record<string, unknown> {
+  return (
+    value != null && typeof value === 'object' && !Array.isArray(value)
+  );
+}
+
+/** The value at `path` within nested JSON objects, if there is one. */
+export function valueAt(value: unknown, ...path: string[]): unknown {
+  for (const key of path) {
+    if (!isRecord(value)) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+export function isTerminalEvent(
+  event: Record<string, unknown> | undefined,
+): boolean {
+  return (
+    typeof event?.type === 'string' && TERMINAL_EVENT_TYPES.has(event.type)
+  );
+}
+
+/**
+ * How a request ended, given the terminal event of its response.
+ */
+export function terminalOutcome(
+  event: Record<string, unknown> | undefined,
+): RequestOutcome {
+  switch (event?.type) {
+    case 'response.completed':
+      return 'completed';
+    case 'response.failed':
+      return 'failed';
+    case 'response.incomplete':
+      return 'incomplete';
+    case 'response.cancelled':
+      return 'cancelled';
+    default:
+      return 'error';
+  }
+}
+
+/**
+ * Encodes a frame the way the HTTP endpoint streams it: an `event:` line
+ * with the event type, followed by the message as `data:`.
+ */
+export function toServerSentEvent(
+  text: string,
+  event: Record<string, unknown> | undefined,
+): string {
+  const name =
+    typeof event?.type === 'string' ? `event: ${event.type}\n` : '';
+  const data = text
+    .split(/\r\n|\r|\n/)
+    .map(line => `data: ${line}\n`)
+    .join('');
+  return `${name}${data}\n`;
+}
@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { TRANSPORT_HEADER } from './index';
+import { post, respond, useMockServer } from './test/mock-server';
+
+let httpFetch: ReturnType<typeof vi.fn<typeof fetch>>;
+
+beforeEach(() => {
+  httpFetch = vi.fn<typeof fetch>(async () =>
+    Response.json({ id: 'resp_http', status: 'completed' }),
+  );
+});
+
+const mock = useMockServer(undefined, {
+  fetch: (input, init) => httpFetch(input, init),
+  reconnect: { maxRetries: 1, initialDelay: 1 },
+});
+
+describe('fallback', () => {
+  it('replays a request over HTTP when no connection can be opened', async () => {
+    mock.server.rejectHandshakes(Infinity, 503);
+    const wsFetch = mock.create();
+
+    const response = await post(wsFetch);
+    expect(response.headers.get(TRANSPORT_HEADER)).toBe('http');
+    expect(await response.json()).toEqual({
+      id: 'resp_http',
+      status: 'completed',
+    });
+    expect(httpFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('still replays requests over HTTP after close', async () => {
+    const wsFetch = mock.create();
+    wsFetch.close();
+    mock.server.rejectHandshakes(Infinity, 503);
+
+    const response = await post(wsFetch);
+    expect(response.headers.get(TRANSPORT_HEADER)).toBe('http');
+    expect(httpFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not replay a rejected protocol version over HTTP', async () => {
+    mock.server.rejectHandshakes(
+      Infinity,
+      400,
+      JSON.stringify({
+        error: {
+          message:
+            'Unsupported OpenAI-Beta: responses_websockets=2020-01-01',
+        },
+      }),
+    );
+    const wsFetch = mock.create({ protocolVersion: '2020-01-01' });
+
+    const response = await post(wsFetch);
+    expect(response.status).toBe(400);
+    expect(response.headers.get(TRANSPORT_HEADER)).toBe('websocket');
+    expect((await response.json()).error.code).toBe(
+      'unsupported_protocol_version',
+    );
+    expect(httpFetch).not.toHaveBeenCalled();
+    expect(mock.server.handshakes).toHaveLength(1);
+  });
+
+  it('does not replay a request over HTTP after it was sent', async () => {
+    mock.server.handle((message, connection) =>
+      connection.socket.terminate(),
+    );
+    const wsFetch = mock.create({ fallback: { failureThreshold: 1 } });
+
+    await expect(post(wsFetch)).rejects.toThrow(
+      'WebSocket connection closed before the response started',
+    );
+    expect(httpFetch).not.toHaveBeenCalled();
+    expect(mock.server.messages).toHaveLength(2);
+
+    // the endpoint's circuit is still closed
+    mock.server.handle(respond);
+    const response = await post(wsFetch);
+    expect(response.headers.get(TRANSPORT_HEADER)).toBe('websocket');
+  });
+});
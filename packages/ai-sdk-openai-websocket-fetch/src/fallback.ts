@@ -0,0 +1,110 @@
+import {
+  WebSocketHandshakeError,
+  WebSocketProtocolVersionError,
+} from './errors';
+
+export interface FallbackOptions {
+  /**
+   * Number of consecutive connection failures to an endpoint after which
+   * its requests are sent over HTTP without trying the WebSocket.
+   * @default 3
+   */
+  failureThreshold?: number;
+
+  /**
+   * Time in milliseconds to send requests over HTTP after the circuit
+   * opened. The next request then tries the WebSocket again.
+   * @default 60000
+   */
+  cooldown?: number;
+}
+
+export function resolveFallbackOptions(
+  options: FallbackOptions | false | undefined,
+): Required<FallbackOptions> | null {
+  if (options === false) return null;
+
+  return {
+    failureThreshold: options?.failureThreshold ?? 3,
+    cooldown: options?.cooldown ?? 60_000,
+  };
+}
+
+/** Header that tells which transport served a request. */
+export const TRANSPORT_HEADER = 'x-websocket-fetch-transport';
+
+export type Transport = 'websocket' | 'http';
+
+/**
+ * Whether a request whose connection failed can be replayed over HTTP.
+ * Handshakes rejected for authentication or rate limits are not, since
+ * the HTTP endpoint would return the same error, and neither are rejected
+ * protocol versions, which need a change of the `protocolVersion` option.
+ */
+export function isFallbackError(error: unknown): boolean {
+  if (error instanceof WebSocketProtocolVersionError) return false;
+  if (error instanceof WebSocketHandshakeError) {
+    return (
+      error.status !== 401 && error.status !== 403 && error.status !== 429
+    );
+  }
+  return !(error instanceof DOMException && error.name === 'AbortError');
+}
+
+/**
+ * Tracks connection failures per endpoint. After `failureThreshold`
+ * consecutive failures the circuit opens and the endpoint is skipped for
+ * `cooldown` milliseconds. A failure after the cooldown opens it again
+ * right away, and a successful connection closes it.
+ */
+export function createCircuitBreaker(options: Required<FallbackOptions>) {
+  const circuits = new Map<
+    string,
+    { failures: number; openUntil: number }
+  >();
+
+  return {
+    isOpen(endpoint: string): boolean {
+      const circuit = circuits.get(endpoint);
+      return circuit !== undefined && circuit.openUntil > Date.now();
+    },
+
+    success(endpoint: string) {
+      circuits.delete(endpoint);
+    },
+
+    failure(endpoint: string) {
+      const circuit = circuits.get(endpoint) ?? {
+        failures: 0,
+        openUntil: 0,
+      };
+      circuit.failures++;
+      if (circuit.failures >= options.failureThreshold) {
+        circuit.openUntil = Date.now() + options.cooldown;
+      }
+      circuits.set(endpoint, circuit);
+    },
+  };
+}
+
+export type CircuitBreaker = ReturnType<typeof createCircuitBreaker>;
+
+/** Marks `response` with the transport that served it. */
+export function withTransport(
+  response: Response,
+  transport: Transport,
+): Response {
+  try {
+    response.headers.set(TRANSPORT_HEADER, transport);
+    return response;
+  } catch {
+    // the headers of a fetched response are immutable
+    const headers = new Headers(response.headers);
+    headers.set(TRANSPORT_HEADER, transport);
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PROTOCOL_VERSION,
+  defaultHandshakeHeaders,
+  withProtocolVersion,
+} from './handshake';
+import { post, useMockServer } from './test/mock-server';
+
+const mock = useMockServer(undefined, { fallback: false });
+
+describe('defaultHandshakeHeaders', () => {
+  it('keeps the credentials and custom headers', () => {
+    expect(
+      defaultHandshakeHeaders({
+        authorization: 'Bearer sk-test',
+        'openai-organization': 'org-1',
+        'openai-project': 'proj-1',
+        'x-custom': 'a',
+        'content-type': 'application/json',
+        'content-length': '42',
+        accept: 'text/event-stream',
+        'user-agent': 'ai-sdk',
+        traceparent: '00-abc-def-01',
+        'sec-websocket-key': 'key',
+      }),
+    ).toEqual({
+      authorization: 'Bearer sk-test',
+      'openai-organization': 'org-1',
+      'openai-project': 'proj-1',
+      'x-custom': 'a',
+    });
+  });
+});
+
+describe('withProtocolVersion', () => {
+  const token = `responses_websockets=${DEFAULT_PROTOCOL_VERSION}`;
+
+  it('adds the version to the OpenAI-Beta header', () => {
+    expect(withProtocolVersion({}, DEFAULT_PROTOCOL_VERSION)).toEqual({
+      'openai-beta': token,
+    });
+  });
+
+  it('keeps the other betas of the header', () => {
+    expect(
+      withProtocolVersion(
+        { 'openai-beta': 'assistants=v2' },
+        DEFAULT_PROTOCOL_VERSION,
+      ),
+    ).toEqual({ 'openai-beta': `assistants=v2, ${token}` });
+  });
+
+  it('keeps a version requested by the request', () => {
+    const headers = {
+      'openai-beta': 'assistants=v2, responses_websockets=2025-01-01',
+    };
+    expect(withProtocolVersion(headers, DEFAULT_PROTOCOL_VERSION)).toBe(
+      headers,
+    );
+  });
+
+  it('adds no version for false', () => {
+    const headers = { 'openai-beta': 'assistants=v2' };
+    expect(withProtocolVersion(headers, false)).toBe(headers);
+  });
+});
+
+describe('handshake', () => {
+  const headers = { 'OpenAI-Beta': 'responses_websockets=2025-01-01' };
+
+  it('requests the configured version', async () => {
+    const wsFetch = mock.create({ protocolVersion: '2026-01-01' });
+    await (await post(wsFetch)).text();
+
+    expect(mock.server.handshakes[0]['openai-beta']).toBe(
+      'responses_websockets=2026-01-01',
+    );
+  });
+
+  it('requests the version of the request instead', async () => {
+    const wsFetch = mock.create();
+    await (await post(wsFetch, {}, { headers })).text();
+    await (await post(wsFetch)).text();
+
+    expect(
+      mock.server.handshakes.map(handshake => handshake['openai-beta']),
+    ).toEqual([
+      'responses_websockets=2025-01-01',
+      `responses_websockets=${DEFAULT_PROTOCOL_VERSION}`,
+    ]);
+  });
+
+  it('requests no version for false', async () => {
+    const wsFetch = mock.create({ protocolVersion: false });
+    await (await post(wsFetch)).text();
+
+    expect(mock.server.handshakes[0]).not.toHaveProperty('openai-beta');
+  });
+
+  it('fails a request whose version is rejected', async () => {
+    mock.server.rejectHandshakes(
+      1,
+      400,
+      JSON.stringify({
+        error: { message: 'Unknown beta responses_websockets=2025-01-01' },
+      }),
+    );
+    const wsFetch = mock.create();
+
+    const response = await post(wsFetch, {}, { headers });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: { code: 'unsupported_protocol_version' },
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/** Version of the Responses API WebSocket protocol requested by default. */
+export const DEFAULT_PROTOCOL_VERSION = '2026-02-06';
+
+// headers that describe the HTTP request itself, or differ per request
+// and would keep connections from being shared
+const REQUEST_ONLY_HEADERS = new Set([
+  'accept',
+  'accept-encoding',
+  'baggage',
+  'connection',
+  'content-encoding',
+  'content-length',
+  'content-type',
+  'host',
+  'keep-alive',
+  'sentry-trace',
+  'te',
+  'traceparent',
+  'tracestate',
+  'transfer-encoding',
+  'upgrade',
+  'user-agent',
+]);
+
+/**
+ * The default selection of handshake headers: all request headers except
+ * those that describe the HTTP request itself, such as `content-type`,
+ * and per-request headers such as `traceparent`. Includes
+ * `Authorization`, `OpenAI-Organization`, `OpenAI-Project`, and custom
+ * headers set with `createOpenAI({ headers })`.
+ */
+export function defaultHandshakeHeaders(
+  headers: Record<string, string>,
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!REQUEST_ONLY_HEADERS.has(name) && !name.startsWith('sec-')) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Adds the `responses_websockets` beta to the `OpenAI-Beta` header,
+ * unless the header already requests a version of it. Other betas in the
+ * header are kept.
+ */
+export function withProtocolVersion(
+  headers: Record<string, string>,
+  version: string | false,
+): Record<string, string> {
+  const beta = headers['openai-beta'];
+  if (
+    version === false ||
+    requestedProtocolVersion(headers) !== undefined
+  ) {
+    return headers;
+  }
+
+  const token = `responses_websockets=${version}`;
+  return {
+    ...headers,
+    'openai-beta': beta ? `${beta}, ${token}` : token,
+  };
+}
+
+/** The `responses_websockets` version requested by `headers`, if any. */
+export function requestedProtocolVersion(
+  headers: Record<string, string>,
+): string | undefined {
+  return /(?:^|[\s,])responses_websockets=([^\s,]+)/.exec(
+    headers['openai-beta'] ?? '',
+  )?.[1];
+}
@@ -0,0 +1,129 @@
+import { EventEmitter } from 'node:events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHeartbeat } from './heartbeat';
+import type { TransportSocket } from './socket';
+import { post, useMockServer } from './test/mock-server';
+
+const options = { interval: 1000, timeout: 100, idleThreshold: 500 };
+
+// an open socket that records pings and answers them when told to
+function createSocket() {
+  const emitter = new EventEmitter();
+  const socket = Object.assign(emitter, {
+    readyState: 1,
+    isPaused: false,
+    ping: vi.fn(),
+    terminate: vi.fn(),
+  });
+  return {
+    socket,
+    transport: socket as unknown as TransportSocket,
+    pong: () => emitter.emit('pong'),
+    receive: () => emitter.emit('message', '{}'),
+  };
+}
+
+describe('createHeartbeat', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('terminates a connection whose pong does not arrive', () => {
+    const { socket, transport, pong } = createSocket();
+    createHeartbeat(transport, options);
+
+    vi.advanceTimersByTime(1000);
+    expect(socket.ping).toHaveBeenCalledTimes(1);
+    pong();
+    vi.advanceTimersByTime(1000);
+    expect(socket.terminate).not.toHaveBeenCalled();
+
+    expect(socket.ping).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(100);
+    expect(socket.terminate).toHaveBeenCalled();
+  });
+
+  it('stops pinging once the connection closed', () => {
+    const { socket, transport } = createSocket();
+    createHeartbeat(transport, options);
+
+    socket.emit('close');
+    vi.advanceTimersByTime(5000);
+    expect(socket.ping).not.toHaveBeenCalled();
+  });
+
+  it('does not ping a paused connection', async () => {
+    const { socket, transport } = createSocket();
+    const heartbeat = createHeartbeat(transport, options);
+    socket.isPaused = true;
+
+    vi.advanceTimersByTime(1000);
+    expect(socket.ping).not.toHaveBeenCalled();
+    await expect(heartbeat.isAlive()).resolves.toBe(true);
+  });
+
+  describe('isAlive', () => {
+    it('trusts a connection that received a message lately', async () => {
+      const { socket, transport, receive } = createSocket();
+      const heartbeat = createHeartbeat(transport, options);
+
+      vi.advanceTimersByTime(400);
+      receive();
+      vi.advanceTimersByTime(400);
+
+      await expect(heartbeat.isAlive()).resolves.toBe(true);
+      expect(socket.ping).not.toHaveBeenCalled();
+    });
+
+    it('pings an idle connection first', async () => {
+      const { socket, transport, pong } = createSocket();
+      const heartbeat = createHeartbeat(transport, options);
+
+      vi.advanceTimersByTime(600);
+      const alive = heartbeat.isAlive();
+      expect(socket.ping).toHaveBeenCalledTimes(1);
+      pong();
+
+      await expect(alive).resolves.toBe(true);
+    });
+
+    it('reports a connection without a pong as dead', async () => {
+      const { socket, transport } = createSocket();
+      const heartbeat = createHeartbeat(transport, options);
+
+      vi.advanceTimersByTime(600);
+      const alive = heartbeat.isAlive();
+      vi.advanceTimersByTime(100);
+
+      await expect(alive).resolves.toBe(false);
+      expect(socket.terminate).toHaveBeenCalled();
+    });
+  });
+});
+
+describe('heartbeat', () => {
+  const mock = useMockServer(undefined, {
+    fallback: false,
+    heartbeat: { idleThreshold: 0, timeout: 50 },
+  });
+
+  it('sends a request on a new connection if the idle one is dead', async () => {
+    const wsFetch = mock.create();
+    await (await post(wsFetch)).text();
+
+    // the server stops reading, so the ping is not answered
+    const [halfOpen] = mock.server.connections;
+    halfOpen.socket.pause();
+
+    const response = await post(wsFetch);
+    await response.text();
+
+    expect(mock.server.connections).toHaveLength(2);
+    expect(mock.server.connections[1].messages).toHaveLength(1);
+    expect(halfOpen.messages).toHaveLength(1);
+  });
+});
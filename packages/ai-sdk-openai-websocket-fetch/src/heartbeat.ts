@@ -0,0 +1,117 @@
+import { READY_STATE, type TransportSocket } from './socket';
+
+export interface HeartbeatOptions {
+  /**
+   * Interval in milliseconds between pings on an open connection.
+   * @default 30000
+   */
+  interval?: number;
+
+  /**
+   * Time in milliseconds to wait for a pong before the connection is
+   * considered dead and closed.
+   * @default 10000
+   */
+  timeout?: number;
+
+  /**
+   * Connections that have not received anything for this many
+   * milliseconds are pinged before a request is sent on them.
+   * @default 60000
+   */
+  idleThreshold?: number;
+}
+
+export function resolveHeartbeatOptions(
+  options: HeartbeatOptions | false | undefined,
+): Required<HeartbeatOptions> | null {
+  if (options === false) return null;
+
+  return {
+    interval: options?.interval ?? 30_000,
+    timeout: options?.timeout ?? 10_000,
+    idleThreshold: options?.idleThreshold ?? 60_000,
+  };
+}
+
+/**
+ * Pings a connection periodically and terminates it when a pong does not
+ * arrive in time. A half-open socket (e.g. dropped by a NAT or proxy)
+ * still reports `OPEN`, so this is the only way to notice it before a
+ * request hangs on it.
+ */
+export function createHeartbeat(
+  socket: TransportSocket,
+  options: Required<HeartbeatOptions>,
+) {
+  let lastActivity = Date.now();
+  let probe: Promise<boolean> | null = null;
+  let resolveProbe: ((alive: boolean) => void) | null = null;
+  let probeTimer: ReturnType<typeof setTimeout> | undefined;
+
+  function touch() {
+    lastActivity = Date.now();
+  }
+
+  function onPong() {
+    touch();
+    clearTimeout(probeTimer);
+    resolveProbe?.(true);
+  }
+
+  function ping(): Promise<boolean> {
+    if (probe) return probe;
+    // a paused socket does not read pongs, and its consumer is just slow
+    if (socket.isPaused) return Promise.resolve(true);
+    if (!socket.ping || socket.readyState !== READY_STATE.OPEN)
+      return Promise.resolve(false);
+
+    probe = new Promise<boolean>(resolve => {
+      resolveProbe = alive => {
+        probe = null;
+        resolveProbe = null;
+        resolve(alive);
+      };
+    });
+    const current = probe;
+
+    probeTimer = setTimeout(() => {
+      resolveProbe?.(false);
+      socket.terminate();
+    }, options.timeout);
+    probeTimer.unref?.();
+
+    socket.ping();
+    return current;
+  }
+
+  const interval = setInterval(ping, options.interval);
+  interval.unref?.();
+
+  function stop() {
+    clearInterval(interval);
+    clearTimeout(probeTimer);
+    resolveProbe?.(false);
+    socket.off('message', touch);
+    socket.off('pong', onPong);
+  }
+
+  socket.on('message', touch);
+  socket.on('pong', onPong);
+  socket.once('close', stop);
+
+  return {
+    /**
+     * Resolves to whether the connection is alive, pinging it first if it
+     * has been quiet for longer than `idleThreshold`.
+     */
+    isAlive(): Promise<boolean> {
+      if (Date.now() - lastActivity < options.idleThreshold) {
+        return Promise.resolve(true);
+      }
+      return ping();
+    },
+  };
+}
+
+export type Heartbeat = ReturnType<typeof createHeartbeat>;
@@ -0,0 +1,121 @@
+import { expect, it, vi } from 'vitest';
+import type { WebSocketFetchHooks } from './index';
+import { post, useMockServer, waitFor } from './test/mock-server';
+
+const mock = useMockServer(undefined, { fallback: false });
+
+// records the name and event of every hook call, in order
+function recordHooks() {
+  const calls: [string, Record<string, unknown>][] = [];
+  const names = [
+    'onConnect',
+    'onReuse',
+    'onClose',
+    'onFrame',
+    'onRequestStart',
+    'onRequestEnd',
+  ] as const;
+  const hooks: WebSocketFetchHooks = {};
+  for (const name of names) {
+    hooks[name] = (event: object) => {
+      calls.push([name, { ...event }]);
+    };
+  }
+  return { calls, hooks };
+}
+
+it('reports connections and requests', async () => {
+  const { calls, hooks } = recordHooks();
+  const wsFetch = mock.create(hooks);
+
+  await (await post(wsFetch)).text();
+  await (await post(wsFetch, { model: 'gpt-other' })).text();
+  wsFetch.close();
+  await waitFor(() => calls.at(-1)?.[0] === 'onClose');
+
+  expect(calls.map(([name]) => name)).toEqual([
+    'onConnect',
+    'onRequestStart',
+    ...Array(3).fill('onFrame'),
+    'onRequestEnd',
+    'onReuse',
+    'onRequestStart',
+    ...Array(3).fill('onFrame'),
+    'onRequestEnd',
+    'onClose',
+  ]);
+
+  const byName = (name: string) =>
+    calls.filter(([n]) => n === name).map(([, event]) => event);
+  expect(byName('onConnect')).toEqual([
+    expect.objectContaining({ connectionId: 1, url: mock.server.url }),
+  ]);
+  expect(byName('onRequestStart')).toEqual([
+    expect.objectContaining({
+      requestId: 1,
+      connectionId: 1,
+      model: 'gpt-test',
+      reused: false,
+      chained: false,
+    }),
+    expect.objectContaining({
+      requestId: 2,
+      model: 'gpt-other',
+      reused: true,
+    }),
+  ]);
+  expect(byName('onReuse')).toEqual([
+    expect.objectContaining({ connectionId: 1, requestCount: 1 }),
+  ]);
+  expect(byName('onFrame')[0]).toMatchObject({
+    requestId: 1,
+    connectionId: 1,
+    event: { type: 'response.created' },
+  });
+  expect(byName('onFrame')[1].responseId).toEqual(expect.any(String));
+  expect(byName('onRequestEnd')[0]).toMatchObject({
+    requestId: 1,
+    outcome: 'completed',
+    responseId: expect.any(String),
+    timeToFirstFrameMs: expect.any(Number),
+  });
+  expect(byName('onClose')).toEqual([
+    expect.objectContaining({ connectionId: 1, requestCount: 2 }),
+  ]);
+});
+
+it('reports how a request ended', async () => {
+  const onRequestEnd = vi.fn();
+  const wsFetch = mock.create({ onRequestEnd });
+  mock.server.handle(() => {
+    // never answers
+  });
+
+  const controller = new AbortController();
+  const pending = post(wsFetch, {}, { signal: controller.signal });
+  await waitFor(() => mock.server.messages.length === 1);
+  controller.abort();
+
+  await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  expect(onRequestEnd).toHaveBeenCalledWith(
+    expect.objectContaining({
+      outcome: 'aborted',
+      timeToFirstFrameMs: undefined,
+    }),
+  );
+});
+
+it('ignores errors thrown by hooks', async () => {
+  const fail = () => {
+    throw new Error('broken observer');
+  };
+  const wsFetch = mock.create({
+    onConnect: fail,
+    onFrame: fail,
+    onRequestStart: fail,
+    onRequestEnd: fail,
+  });
+
+  const response = await post(wsFetch);
+  expect(await response.text()).toContain('response.completed');
+});
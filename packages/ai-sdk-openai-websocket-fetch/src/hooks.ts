@@ -0,0 +1,205 @@
+import type { RateLimit, TokenUsage } from './usage';
+
+export interface ConnectEvent {
+  /** Id of the connection, unique within a `wsFetch` instance. */
+  connectionId: number;
+
+  /** WebSocket endpoint URL. */
+  url: string;
+
+  /** Time the connection attempt started (ms since epoch). */
+  startTime: number;
+
+  /** Duration of the TCP, TLS and upgrade handshake in milliseconds. */
+  durationMs: number;
+}
+
+export interface ReuseEvent {
+  connectionId: number;
+
+  /** Time in milliseconds since the connection last finished a request. */
+  idleMs: number;
+
+  /** Number of requests the connection has served before this one. */
+  requestCount: number;
+}
+
+export interface ConnectionCloseEvent {
+  connectionId: number;
+
+  /** WebSocket close code. */
+  code: number;
+
+  /** WebSocket close reason. */
+  reason: string;
+
+  /** Time in milliseconds the connection was open. */
+  lifetimeMs: number;
+
+  /** Number of requests the connection has served. */
+  requestCount: number;
+}
+
+export interface FrameEvent {
+  requestId: number;
+  connectionId: number;
+
+  /** Id of the response, once known. */
+  responseId: string | undefined;
+
+  /** The raw message text. */
+  data: string;
+
+  /** The parsed event, undefined if the message is malformed. */
+  event: Record<string, unknown> | undefined;
+
+  /** Time the frame was received (ms since epoch). */
+  receivedAt: number;
+}
+
+export interface RequestStartEvent {
+  /** Id of the request, unique within a `wsFetch` instance. */
+  requestId: number;
+  connectionId: number;
+
+  /** Model from the request body. */
+  model: string | undefined;
+
+  /** Whether the request was sent on an already open connection. */
+  reused: boolean;
+
+  /**
+   * Whether only the new input items were sent, with
+   * `previous_response_id` (see `chainResponses`).
+   */
+  chained: boolean;
+
+  /** Time `websocketFetch` was called (ms since epoch). */
+  startTime: number;
+
+  /**
+   * Time in milliseconds spent acquiring the connection, including
+   * queueing and the handshake of a new connection.
+   */
+  acquireMs: number;
+}
+
+export type RequestOutcome =
+  | 'completed'
+  | 'failed'
+  | 'incomplete'
+  | 'cancelled'
+  | 'error'
+  | 'aborted'
+  | 'timeout'
+  | 'fallback';
+
+export interface RequestEndEvent {
+  requestId: number;
+  connectionId: number;
+  responseId: string | undefined;
+
+  /**
+   * How the request ended: the terminal event of the response, `error`
+   * for error events and connection failures, `aborted` when the caller
+   * aborted, `timeout` after `inactivityTimeout`, or `fallback` when it
+   * was replayed over HTTP.
+   */
+  outcome: RequestOutcome;
+
+  /** The error that ended the request, if any. */
+  error?: unknown;
+
+  /** Time `websocketFetch` was called (ms since epoch). */
+  startTime: number;
+
+  /** Time in milliseconds from the call until the request ended. */
+  durationMs: number;
+
+  /**
+   * Time in milliseconds from sending `response.create` until the first
+   * frame arrived, if one did.
+   */
+  timeToFirstFrameMs: number | undefined;
+}
+
+export interface FallbackEvent {
+  requestId: number;
+
+  /** WebSocket endpoint URL. */
+  url: string;
+
+  /**
+   * Why the request was sent over HTTP: the connection failed, or the
+   * endpoint's circuit is open after repeated failures.
+   */
+  reason: 'connection-failed' | 'circuit-open';
+
+  /** The connection error, if the connection failed. */
+  error?: unknown;
+}
+
+export interface UsageEvent {
+  requestId: number;
+  connectionId: number;
+  responseId: string | undefined;
+
+  /** Model from the request body. */
+  model: string | undefined;
+
+  /** Token usage of the response. */
+  usage: TokenUsage;
+}
+
+export interface RateLimitsEvent {
+  requestId: number;
+  connectionId: number;
+
+  /** The rate limits reported for the request's credentials. */
+  rateLimits: RateLimit[];
+}
+
+/**
+ * Observers for the transport. Hooks are called synchronously, and errors
+ * they throw are ignored so that observing never breaks a request.
+ */
+export interface WebSocketFetchHooks {
+  /** A new connection has been opened. */
+  onConnect?: (event: ConnectEvent) => void;
+
+  /** An open connection is reused for a request. */
+  onReuse?: (event: ReuseEvent) => void;
+
+  /** A connection has been closed. */
+  onClose?: (event: ConnectionCloseEvent) => void;
+
+  /** A frame of a request's response has been received. */
+  onFrame?: (event: FrameEvent) => void;
+
+  /** `response.create` has been sent for a request. */
+  onRequestStart?: (event: RequestStartEvent) => void;
+
+  /** A request has ended. */
+  onRequestEnd?: (event: RequestEndEvent) => void;
+
+  /** A request is sent over HTTP instead of the WebSocket. */
+  onFallback?: (event: FallbackEvent) => void;
+
+  /** A response reported its token usage. */
+  onUsage?: (event: UsageEvent) => void;
+
+  /** The server reported the current rate limits. */
+  onRateLimits?: (event: RateLimitsEvent) => void;
+}
+
+export function callHook<T>(
+  hook: ((event: T) => void) | undefined,
+  event: T,
+): void {
+  if (!hook) return;
+  try {
+    hook(event);
+  } catch {
+    // observers must not affect the request
+  }
+}
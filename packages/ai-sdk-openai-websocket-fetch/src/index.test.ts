@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  post,
+  readEvents,
+  respond,
+  responseEvents,
+  useMockServer,
+} from './test/mock-server';
+
+const mock = useMockServer(undefined, {
+  fallback: false,
+  reconnect: { initialDelay: 1, jitter: false },
+});
+
+describe('terminal events', () => {
+  it.each([
+    'response.completed',
+    'response.failed',
+    'response.incomplete',
+    'response.cancelled',
+  ])('ends the stream on %s and reuses the connection', async terminal => {
+    mock.server.handle((message, connection) => {
+      for (const event of responseEvents(terminal)) connection.send(event);
+    });
+    const wsFetch = mock.create();
+
+    for (let i = 0; i < 2; i++) {
+      const response = await post(wsFetch);
+      expect(response.status).toBe(200);
+      const events = await readEvents(response);
+      expect(events.map(event => event.type)).toEqual([
+        'response.created',
+        'response.output_text.delta',
+        terminal,
+      ]);
+    }
+    expect(mock.server.connections).toHaveLength(1);
+  });
+
+  it('turns an error event into an error response', async () => {
+    mock.server.handle((message, connection) => {
+      connection.send({
+        type: 'error',
+        error: {
+          type: 'invalid_request_error',
+          code: 'invalid_value',
+          message: 'Invalid value',
+          param: 'input',
+        },
+      });
+    });
+    const wsFetch = mock.create();
+
+    const response = await post(wsFetch);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: {
+        type: 'invalid_request_error',
+        code: 'invalid_value',
+        message: 'Invalid value',
+        param: 'input',
+      },
+    });
+
+    mock.server.handle(respond);
+    await (await post(wsFetch)).text();
+    expect(mock.server.connections).toHaveLength(1);
+  });
+
+  it('resolves a non-streaming request with the final response', async () => {
+    const wsFetch = mock.create();
+
+    const response = await post(wsFetch, { stream: false });
+    const body = await response.json();
+    expect(body.status).toBe('completed');
+    expect(mock.server.messages[0]).not.toHaveProperty('stream');
+  });
+});
+
+describe('inactivityTimeout', () => {
+  it('fails a request without events and closes its connection', async () => {
+    mock.server.handle(() => {});
+    const wsFetch = mock.create({ inactivityTimeout: 50 });
+
+    await expect(post(wsFetch)).rejects.toMatchObject({
+      name: 'TimeoutError',
+    });
+
+    mock.server.handle(respond);
+    await (await post(wsFetch)).text();
+    expect(mock.server.connections).toHaveLength(2);
+  });
+
+  it('errors a stream whose events stop', async () => {
+    mock.server.handle((message, connection) => {
+      connection.send(responseEvents()[0]);
+    });
+    const wsFetch = mock.create({ inactivityTimeout: 50 });
+
+    const response = await post(wsFetch);
+    await expect(response.text()).rejects.toMatchObject({
+      name: 'TimeoutError',
+    });
+  });
+});
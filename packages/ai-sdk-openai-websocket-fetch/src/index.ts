@@ -1,23 +1,391 @@
-import WebSocket from 'ws';
+import { createDefaultWebSocketFactory } from './adapters';
+import {
+  type ChainedTurn,
+  chainRequest,
+  completedTurn,
+  isPreviousResponseNotFound,
+} from './chaining';
+import {
+  type ConnectionIdentity,
+  type ConnectionLease,
+  createConnectionPool,
+  identityKey,
+} from './connection-pool';
+import { type Frame, type Subscription } from './dispatcher';
+import {
+  WebSocketFrameError,
+  WebSocketHandshakeError,
+  errorEventToResponse,
+  handshakeErrorToResponse,
+} from './errors';
+import {
+  isTerminalEvent,
+  terminalOutcome,
+  toServerSentEvent,
+} from './events';
+import {
+  type FallbackOptions,
+  type Transport,
+  createCircuitBreaker,
+  isFallbackError,
+  resolveFallbackOptions,
+  withTransport,
+} from './fallback';
+import {
+  DEFAULT_PROTOCOL_VERSION,
+  defaultHandshakeHeaders,
+  withProtocolVersion,
+} from './handshake';
+import {
+  type HeartbeatOptions,
+  resolveHeartbeatOptions,
+} from './heartbeat';
+import {
+  type RequestOutcome,
+  type WebSocketFetchHooks,
+  callHook,
+} from './hooks';
+import {
+  type ConnectionLifetimeOptions,
+  resolveLifetimeOptions,
+} from './lifetime';
+import {
+  type WebSocketFetchMiddleware,
+  applyEventMiddleware,
+  applyMessageMiddleware,
+  applyRequestMiddleware,
+  notifyRequestEnd,
+  toRequestInit,
+} from './middleware';
+import {
+  type RateLimitTicket,
+  type RateLimiterOptions,
+  createRateLimiter,
+  resolveRateLimiterOptions,
+} from './rate-limiter';
+import {
+  type ReconnectOptions,
+  createRetryBudget,
+  resolveReconnectOptions,
+} from './reconnect';
+import { normalizeHeaders, readRequest } from './request-body';
+import {
+  type RoutableRequest,
+  isResponsesEndpoint,
+  isResponsesRequest,
+  toWebSocketUrl,
+} from './routing';
+import { closeOnExit } from './shutdown';
+import {
+  READY_STATE,
+  type TransportSocket,
+  type WebSocketFactory,
+} from './socket';
+import { type TelemetryOptions, startRequestTrace } from './telemetry';
+import {
+  type UsageSnapshot,
+  createUsageTracker,
+  rateLimitHeaders,
+  rateLimitsOf,
+  usageOf,
+} from './usage';
+
+export {
+  createDefaultWebSocketFactory,
+  createFetchUpgradeWebSocketFactory,
+  createGlobalWebSocketFactory,
+  createNodeWebSocketFactory,
+} from './adapters';
+export type { GlobalWebSocketFactoryOptions } from './adapters';
+export {
+  RateLimitQueueError,
+  WebSocketFrameError,
+  WebSocketHandshakeError,
+  WebSocketProtocolVersionError,
+} from './errors';
+export { TRANSPORT_HEADER } from './fallback';
+export type { FallbackOptions, Transport } from './fallback';
+export { defaultHandshakeHeaders } from './handshake';
+export { isResponsesRequest, toWebSocketUrl } from './routing';
+export type { RoutableRequest } from './routing';
+export type { HeartbeatOptions } from './heartbeat';
+export type {
+  ConnectionCloseEvent,
+  ConnectEvent,
+  FallbackEvent,
+  FrameEvent,
+  RateLimitsEvent,
+  ReuseEvent,
+  RequestEndEvent,
+  RequestOutcome,
+  RequestStartEvent,
+  UsageEvent,
+  WebSocketFetchHooks,
+} from './hooks';
+export type { ConnectionLifetimeOptions } from './lifetime';
+export type {
+  EventContext,
+  MessageContext,
+  RequestEndContext,
+  WebSocketFetchMiddleware,
+} from './middleware';
+export { estimateTokens } from './rate-limiter';
+export type { RateLimiterOptions } from './rate-limiter';
+export type { ReconnectOptions } from './reconnect';
+export { createRecorder, readFixture } from './recording';
+export type {
+  Fixture,
+  RecordedEvent,
+  RecordedInteraction,
+  Recorder,
+  RecorderOptions,
+} from './recording';
+export { createReplayWebSocketFactory } from './replay';
+export type { ReplayOptions } from './replay';
+export type {
+  WebSocketFactory,
+  WebSocketFactoryInit,
+  WebSocketLike,
+} from './socket';
+export type { TelemetryOptions } from './telemetry';
+export type { RateLimit, TokenUsage, UsageSnapshot } from './usage';
+
+export interface CreateWebSocketFetchOptions extends WebSocketFetchHooks {
+  /**
+   * WebSocket endpoint URL, or a function that derives it from the HTTP
+   * URL of a request. By default, the request URL with a `wss:` scheme is
+   * used, so the `baseURL` of the provider is honored.
+   * @default toWebSocketUrl
+   */
+  url?: string | ((requestUrl: string) => string);
+
+  /**
+   * Decides which requests are sent over the WebSocket. Other requests
+   * are passed through to `fetch`.
+   * @default isResponsesRequest
+   */
+  shouldRoute?: (request: RoutableRequest) => boolean;
+
+  /**
+   * The `fetch` that requests are sent with when they are not routed
+   * through the WebSocket or fall back to HTTP, e.g. one that adds
+   * proxy settings or retries.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof globalThis.fetch;
 
-export interface CreateWebSocketFetchOptions {
   /**
-   * WebSocket endpoint URL.
-   * @default 'wss://api.openai.com/v1/responses'
+   * Middleware that inspects or rewrites the parsed request, the
+   * `response.create` message and each received event.
+   */
+  middleware?: WebSocketFetchMiddleware[];
+
+  /**
+   * Selects the request headers that are sent with the WebSocket
+   * handshake. Connections are only shared between requests whose
+   * selected headers are identical, so headers that differ per request
+   * should not be selected. Header names are lowercase.
+   * @default defaultHandshakeHeaders
+   */
+  handshakeHeaders?: (
+    headers: Record<string, string>,
+  ) => Record<string, string>;
+
+  /**
+   * Version of the WebSocket protocol, sent as
+   * `OpenAI-Beta: responses_websockets=<version>`. A request whose own
+   * `OpenAI-Beta` header requests a version overrides it. Pass `false` to
+   * send no version. A rejected version fails the request with a
+   * `400`-class response whose error code is
+   * `unsupported_protocol_version`, and is never replayed over HTTP.
+   * @default '2026-02-06'
+   */
+  protocolVersion?: string | false;
+
+  /**
+   * Creates the WebSocket of a new connection. Use one of the adapters to
+   * pick a WebSocket implementation explicitly, e.g.
+   * `createGlobalWebSocketFactory()` in the browser.
+   * @default `ws` on Node.js, the global `WebSocket` elsewhere
+   */
+  createWebSocket?: WebSocketFactory;
+
+  /**
+   * Maximum size in bytes of a received message. Long reasoning or large
+   * tool call arguments can produce big events; a larger message closes
+   * the connection and fails its request with a `WebSocketFrameError`.
+   * @default 104857600 (100 MiB)
+   */
+  maxPayload?: number;
+
+  /**
+   * Negotiates permessage-deflate compression of messages, which trades
+   * CPU time and memory per connection for bandwidth. Only applies to
+   * WebSocket implementations that let the client choose, such as `ws`.
+   * @default false
+   */
+  perMessageDeflate?: boolean;
+
+  /**
+   * Maximum number of concurrent WebSocket connections. Requests beyond
+   * this limit are queued until a connection becomes free.
+   * @default 4
+   */
+  maxConnections?: number;
+
+  /**
+   * Maximum number of concurrent connections per identity. Connections are
+   * keyed by their endpoint and handshake headers, such as
+   * `Authorization`, `OpenAI-Organization` and `OpenAI-Project`, and never
+   * shared across identities, so this keeps a single tenant from
+   * occupying the whole pool. While several identities wait for a
+   * connection, freed connections are shared out between them.
+   * @default maxConnections - 1, at least 1
+   */
+  maxConnectionsPerKey?: number;
+
+  /**
+   * Time in milliseconds after which an unused connection is closed.
+   * @default 300000
+   * @deprecated Use `lifetime.maxIdle` instead.
+   */
+  idleTimeout?: number;
+
+  /**
+   * When connections are retired: after `maxAge` milliseconds, after
+   * `maxIdle` milliseconds without a request, or after `maxRequests`
+   * requests. A retired connection finishes its current request first.
+   */
+  lifetime?: ConnectionLifetimeOptions;
+
+  /**
+   * Close all connections when the process receives `SIGTERM` or is about
+   * to exit (`beforeExit`). Ignored in runtimes without process events.
+   * @default false
+   */
+  closeOnExit?: boolean;
+
+  /**
+   * Send only the new input items of a request that continues the last
+   * response of its connection, with `previous_response_id`, instead of
+   * the whole conversation. Requests whose history diverges from that
+   * response are sent in full.
+   * @default false
+   */
+  chainResponses?: boolean;
+
+  /**
+   * Retry policy for failed connection attempts and for requests whose
+   * connection dropped before the first event arrived. Pass `false` to
+   * disable retries.
+   */
+  reconnect?: ReconnectOptions | false;
+
+  /**
+   * Time in milliseconds to wait for the next event of a response before
+   * failing the request with a `TimeoutError`. The connection is closed,
+   * since the response may still be running on the server.
+   * @default 300000
+   */
+  inactivityTimeout?: number;
+
+  /**
+   * Time in milliseconds to wait for the server to acknowledge the
+   * cancellation of an aborted response. The connection is reused once the
+   * response has ended, or closed if this timeout elapses first.
+   * @default 5000
+   */
+  cancelTimeout?: number;
+
+  /**
+   * Keepalive policy. Open connections are pinged periodically and closed
+   * when a pong does not arrive in time, and connections that have been
+   * quiet for a while are pinged before a request is sent on them. Pass
+   * `false` to disable pings.
+   */
+  heartbeat?: HeartbeatOptions | false;
+
+  /**
+   * Open a connection as soon as the fetch function is created, instead
+   * of on the first request. Pass `true` to authenticate with the
+   * `OPENAI_API_KEY` environment variable like `createOpenAI` does.
+   */
+  preconnect?: boolean | Omit<PreconnectOptions, 'signal'>;
+
+  /**
+   * Replay requests over HTTP with `fetch` when no WebSocket connection
+   * can be established, e.g. behind a proxy that blocks WebSockets. After
+   * repeated failures, an endpoint's requests go straight to HTTP for a
+   * cooldown period. Pass `false` to fail such requests instead.
+   */
+  fallback?: FallbackOptions | false;
+
+  /**
+   * Client-side rate limiting: requests wait in a priority queue until
+   * they fit within the configured limits and those the server reports,
+   * instead of failing with `429` errors. Disabled by default.
+   */
+  rateLimit?: RateLimiterOptions;
+
+  /**
+   * OpenTelemetry tracing of WebSocket-routed requests. Spans nest under
+   * the span that is active when the request is made, such as the AI
+   * SDK's `ai.streamText.doStream` span.
+   */
+  telemetry?: TelemetryOptions;
+}
+
+export interface PreconnectOptions {
+  /**
+   * HTTP URL of the requests that will use the connection.
+   * @default 'https://api.openai.com/v1/responses'
    */
   url?: string;
+
+  /**
+   * `Authorization` header of the requests that will use the connection.
+   * @default `Bearer ${process.env.OPENAI_API_KEY}`
+   */
+  authorization?: string;
+
+  /** `OpenAI-Organization` header of the requests, if any. */
+  organization?: string;
+
+  /** `OpenAI-Project` header of the requests, if any. */
+  project?: string;
+
+  /** Other headers of the requests, such as those of `createOpenAI`. */
+  headers?: Record<string, string>;
+
+  /** Abort signal that cancels retries of the connection attempt. */
+  signal?: AbortSignal;
+}
+
+export interface CloseOptions {
+  /**
+   * Let requests in progress and waiting requests finish. Idle
+   * connections are closed right away, busy ones once their requests
+   * have ended.
+   * @default false
+   */
+  graceful?: boolean;
 }
 
 /**
- * Creates a `fetch` function that routes OpenAI Responses API streaming
- * requests through a persistent WebSocket connection instead of HTTP.
+ * Creates a `fetch` function that routes OpenAI Responses API requests
+ * through a persistent WebSocket connection instead of HTTP. Streaming
+ * requests receive the events as server-sent events, and non-streaming
+ * requests the final response as JSON, as the HTTP API returns them.
  *
- * Non-streaming requests and requests to other endpoints are passed
- * through to the standard `fetch`.
+ * Background requests and requests to other endpoints are passed through
+ * to the standard `fetch`.
  *
- * The connection is created lazily on the first streaming request and
- * reused for subsequent ones, which is the main source of latency
- * savings in multi-step tool-calling workflows.
+ * Connections are created lazily and kept in a bounded pool, so
+ * subsequent requests reuse an open socket, which is the main source of
+ * latency savings in multi-step tool-calling workflows. Concurrent
+ * requests each get their own connection up to `maxConnectionsPerKey`,
+ * and requests with different credentials never share a connection, so a
+ * single instance can safely serve many tenants.
  *
  * @example
  * ```ts
@@ -37,197 +405,875 @@ export interface CreateWebSocketFetchOptions {
 export function createWebSocketFetch(
   options?: CreateWebSocketFetchOptions,
 ) {
-  const wsUrl = options?.url ?? 'wss://api.openai.com/v1/responses';
+  const urlOption = options?.url;
+  const webSocketUrl =
+    typeof urlOption === 'string'
+      ? () => urlOption
+      : (urlOption ?? toWebSocketUrl);
+  const shouldRoute = options?.shouldRoute ?? isResponsesRequest;
+  const selectHeaders =
+    options?.handshakeHeaders ?? defaultHandshakeHeaders;
+  const protocolVersion =
+    options?.protocolVersion ?? DEFAULT_PROTOCOL_VERSION;
 
-  let ws: WebSocket | null = null;
-  let connecting: Promise<WebSocket> | null = null;
-  let busy = false;
+  function identityFor(
+    requestUrl: string,
+    headers: Record<string, string>,
+  ): ConnectionIdentity {
+    return {
+      url: webSocketUrl(requestUrl),
+      headers: withProtocolVersion(
+        selectHeaders(headers),
+        protocolVersion,
+      ),
+    };
+  }
 
-  function getConnection(authorization: string): Promise<WebSocket> {
-    if (ws?.readyState === WebSocket.OPEN && !busy) {
-      return Promise.resolve(ws);
-    }
+  const reconnect = resolveReconnectOptions(options?.reconnect);
+  const inactivityTimeout = options?.inactivityTimeout ?? 300_000;
+  const cancelTimeout = options?.cancelTimeout ?? 5_000;
 
-    if (connecting && !busy) return connecting;
+  const maxConnections = options?.maxConnections ?? 4;
 
-    connecting = new Promise<WebSocket>((resolve, reject) => {
-      const socket = new WebSocket(wsUrl, {
-        headers: {
-          Authorization: authorization,
-          'OpenAI-Beta': 'responses_websockets=2026-02-06',
-        },
-      });
+  const pool = createConnectionPool({
+    createWebSocket:
+      options?.createWebSocket ?? createDefaultWebSocketFactory(),
+    maxPayload: options?.maxPayload ?? 100 * 1024 * 1024,
+    perMessageDeflate: options?.perMessageDeflate ?? false,
+    maxConnections,
+    maxConnectionsPerKey:
+      options?.maxConnectionsPerKey ?? Math.max(1, maxConnections - 1),
+    lifetime: resolveLifetimeOptions(
+      options?.lifetime,
+      options?.idleTimeout,
+    ),
+    reconnect,
+    heartbeat: resolveHeartbeatOptions(options?.heartbeat),
+    hooks: {
+      onConnect: options?.onConnect,
+      onReuse: options?.onReuse,
+      onClose: options?.onClose,
+    },
+  });
 
-      socket.on('open', () => {
-        ws = socket;
-        connecting = null;
-        resolve(socket);
-      });
+  const fallbackOptions = resolveFallbackOptions(options?.fallback);
+  const breaker = fallbackOptions && createCircuitBreaker(fallbackOptions);
+  // incremented by `close`, whose cut-off requests are not replayed over
+  // HTTP
+  let generation = 0;
 
-      socket.on('error', err => {
-        if (connecting) {
-          connecting = null;
-          reject(err);
-        }
-      });
+  let nextRequestId = 1;
 
-      socket.on('close', () => {
-        if (ws === socket) ws = null;
-      });
-    });
+  const middleware = options?.middleware ?? [];
+  const rewritesRequests = middleware.some(m => m.transformRequest);
+  // the default routing needs no body to reject other endpoints, unless
+  // middleware may reroute the request
+  const shouldReadBody =
+    options?.shouldRoute || rewritesRequests
+      ? undefined
+      : isResponsesEndpoint;
+  const transformsEvents = middleware.some(m => m.transformEvent);
 
-    return connecting;
+  function baseFetch(input: RequestInfo | URL, init?: RequestInit) {
+    return (options?.fetch ?? globalThis.fetch)(input, init);
   }
 
+  const usageTracker = createUsageTracker();
+  const limiter = options?.rateLimit
+    ? createRateLimiter(resolveRateLimiterOptions(options.rateLimit))
+    : undefined;
+
+  // the last completed response of each connection, for `chainResponses`
+  const turns = new WeakMap<TransportSocket, ChainedTurn>();
+
   async function websocketFetch(
     input: RequestInfo | URL,
     init?: RequestInit,
   ): Promise<Response> {
-    const url =
-      input instanceof URL
-        ? input.toString()
-        : typeof input === 'string'
-          ? input
-          : input.url;
-
-    if (init?.method !== 'POST' || !url.endsWith('/responses')) {
-      return globalThis.fetch(input, init);
+    const request = await readRequest(input, init, shouldReadBody);
+    const { signal } = request;
+    if (
+      request.body === null ||
+      typeof request.body !== 'object' ||
+      Array.isArray(request.body)
+    ) {
+      return baseFetch(input, request.init);
     }
 
-    let body: Record<string, unknown>;
-    try {
-      body = JSON.parse(typeof init.body === 'string' ? init.body : '');
-    } catch {
-      return globalThis.fetch(input, init);
+    const routable = await applyRequestMiddleware(middleware, {
+      url: request.url,
+      method: request.method,
+      headers: request.headers,
+      body: request.body as Record<string, unknown>,
+    });
+    const { url, headers, body } = routable;
+
+    // the request as sent over HTTP, rewritten if there is middleware
+    function fetchRequest(): Promise<Response> {
+      return rewritesRequests
+        ? baseFetch(url, toRequestInit(routable, request.init, signal))
+        : baseFetch(input, request.init);
+    }
+
+    if (!shouldRoute(routable)) return fetchRequest();
+
+    const streamResponse = body.stream === true;
+    const identity = identityFor(url, headers);
+
+    const requestId = nextRequestId++;
+    const requestGeneration = generation;
+    registerExit();
+
+    async function fetchOverHttp(): Promise<Response> {
+      return withTransport(await fetchRequest(), 'http');
     }
 
-    if (!body.stream) {
-      return globalThis.fetch(input, init);
+    // whether a failed connection is replayed over HTTP
+    function canFallBack(error: unknown): boolean {
+      return (
+        breaker !== null &&
+        generation === requestGeneration &&
+        !signal?.aborted &&
+        isFallbackError(error)
+      );
     }
 
-    const headers = normalizeHeaders(init.headers);
-    const authorization = headers['authorization'] ?? '';
+    function reportFallback(
+      reason: 'connection-failed' | 'circuit-open',
+      error?: unknown,
+    ) {
+      if (reason === 'connection-failed') breaker?.failure(identity.url);
+      callHook(options?.onFallback, {
+        requestId,
+        url: identity.url,
+        reason,
+        error,
+      });
+    }
 
-    const connection = await getConnection(authorization);
-    busy = true;
+    const startTime = Date.now();
+    const model = typeof body.model === 'string' ? body.model : undefined;
+    const requestTrace = await startRequestTrace(options?.telemetry, {
+      requestId,
+      model,
+    });
 
     const { stream: _, ...requestBody } = body;
+
+    // the connection holding the previous response can continue it
+    const chainOn = options?.chainResponses
+      ? (socket: TransportSocket) =>
+          chainRequest(requestBody, turns.get(socket))
+      : undefined;
+
+    let ticket: RateLimitTicket | undefined;
+    if (limiter) {
+      try {
+        ticket = await limiter.acquire(
+          identityKey(identity),
+          routable,
+          signal,
+        );
+      } catch (err) {
+        requestTrace.end(signal?.aborted ? 'aborted' : 'error', err);
+        throw err;
+      }
+    }
+
+    // Returns the reservation of a request that never reached the server.
+    // Requests sent over HTTP instead keep theirs.
+    function refund() {
+      if (ticket) limiter?.refund(ticket);
+      ticket = undefined;
+    }
+
+    if (breaker?.isOpen(identity.url)) {
+      requestTrace.end('fallback');
+      reportFallback('circuit-open');
+      return fetchOverHttp();
+    }
+
+    // shared by the connection attempts and replays of this request
+    const budget = createRetryBudget(reconnect);
+
+    let initialLease: ConnectionLease;
+    try {
+      initialLease = await pool.acquire(
+        identity,
+        signal,
+        chainOn && (socket => chainOn(socket) !== undefined),
+        budget,
+      );
+    } catch (err) {
+      if (canFallBack(err)) {
+        requestTrace.end('fallback', err);
+        reportFallback('connection-failed', err);
+        return fetchOverHttp();
+      }
+
+      refund();
+      requestTrace.end(signal?.aborted ? 'aborted' : 'error', err);
+      if (err instanceof WebSocketHandshakeError) {
+        return withTransport(handshakeErrorToResponse(err), 'websocket');
+      }
+      throw err;
+    }
+    breaker?.success(identity.url);
+    requestTrace.acquired(initialLease, startTime);
+
     const encoder = new TextEncoder();
+    const acquireMs = Date.now() - startTime;
 
-    const responseStream = new ReadableStream<Uint8Array>({
-      start(controller) {
-        function cleanup() {
-          connection.off('message', onMessage);
-          connection.off('error', onError);
-          connection.off('close', onClose);
-          busy = false;
+    // The response is resolved on the first event, so that an error
+    // reported before any output can become an HTTP error response.
+    return new Promise<Response>((resolve, rejectResponse) => {
+      function resolveResponse(
+        response: Response,
+        transport: Transport = 'websocket',
+      ) {
+        const rateLimits = usageTracker.rateLimitsFor(
+          identityKey(identity),
+        );
+        for (const [name, value] of Object.entries(
+          rateLimitHeaders(rateLimits),
+        )) {
+          response.headers.set(name, value);
         }
+        resolve(withTransport(response, transport));
+      }
 
-        function onMessage(data: WebSocket.RawData) {
-          const text = data.toString();
-          controller.enqueue(encoder.encode(`data: ${text}\n\n`));
+      let lease = initialLease;
+      // waiting: sent, no event yet, so the request can still be replayed
+      // streaming: events are flowing, and the response has been returned
+      //   unless the request is not streaming
+      // done: a terminal event, error or abort ended the request
+      let state: 'waiting' | 'streaming' | 'done' = 'waiting';
+      let subscription: Subscription | undefined;
+      let socketError: unknown;
+      let inactivityTimer: ReturnType<typeof setTimeout> | undefined;
+      let sentAt: number | undefined;
+      let chained = false;
+      let firstFrameAt: number | undefined;
+      let controller!: ReadableStreamDefaultController<Uint8Array>;
+
+      const responseStream = new ReadableStream<Uint8Array>(
+        {
+          start(c) {
+            controller = c;
+          },
+          // the consumer caught up
+          pull() {
+            resumeReading();
+          },
+          // the consumer stopped reading, e.g. the AI SDK stream was cancelled
+          cancel() {
+            if (state !== 'done') finish('aborted', { mode: 'abandon' });
+          },
+        },
+        { highWaterMark: STREAM_HIGH_WATER_MARK, size: c => c.byteLength },
+      );
+
+      // A slow consumer pauses reading from the socket, which holds the
+      // server back through TCP flow control instead of buffering the
+      // whole response. Sockets that cannot pause are buffered.
+      function pauseReading(): boolean {
+        if (!lease.socket.pause) return false;
+        if (!lease.socket.isPaused) lease.socket.pause();
+        return true;
+      }
 
+      function resumeReading() {
+        if (!lease.socket.isPaused) return;
+        lease.socket.resume?.();
+        if (state !== 'done') resetInactivityTimer();
+      }
+
+      // release: the response ended, the connection is reusable as is
+      // abandon: the response may still be running, cancel it and drop
+      //   its remaining frames before the connection is reused
+      // discard: the connection is in an unknown state and is closed
+      type Detach = 'release' | 'abandon' | 'discard';
+
+      function detach(mode: Detach = 'release') {
+        clearTimeout(inactivityTimer);
+        resumeReading();
+        lease.socket.off('error', onError);
+        lease.socket.off('close', onClose);
+
+        const current = subscription;
+        subscription = undefined;
+
+        if (mode === 'abandon' && current) {
+          cancelAndRelease(lease, current, cancelTimeout);
+          return;
+        }
+
+        if (mode === 'discard') lease.socket.close();
+        current?.close();
+        lease.release();
+      }
+
+      function finish(
+        outcome: RequestOutcome,
+        {
+          response,
+          error,
+          mode,
+        }: { response?: Response; error?: unknown; mode?: Detach } = {},
+      ) {
+        state = 'done';
+        const { connectionId } = lease;
+        const responseId = subscription?.responseId;
+        detach(mode);
+        signal?.removeEventListener('abort', onAbort);
+        if (sentAt === undefined) refund();
+        requestTrace.end(outcome, error);
+
+        if (sentAt !== undefined) {
+          notifyRequestEnd(middleware, { requestId, outcome });
+          callHook(options?.onRequestEnd, {
+            requestId,
+            connectionId,
+            responseId,
+            outcome,
+            error,
+            startTime,
+            durationMs: Date.now() - startTime,
+            timeToFirstFrameMs:
+              firstFrameAt !== undefined
+                ? firstFrameAt - sentAt
+                : undefined,
+          });
+        }
+
+        if (response) resolveResponse(response);
+      }
+
+      function fail(
+        error: unknown,
+        outcome: RequestOutcome,
+        mode?: Detach,
+      ) {
+        if (state === 'done') return;
+        const wasStreaming = state === 'streaming';
+
+        finish(outcome, { error, mode });
+
+        if (wasStreaming && streamResponse) {
+          controller.error(error);
+        } else {
+          rejectResponse(error);
+        }
+      }
+
+      function resetInactivityTimer() {
+        clearTimeout(inactivityTimer);
+        inactivityTimer = setTimeout(() => {
+          fail(
+            new DOMException(
+              `No event received for ${inactivityTimeout}ms`,
+              'TimeoutError',
+            ),
+            'timeout',
+            'discard',
+          );
+        }, inactivityTimeout);
+      }
+
+      function onFrame(frame: Frame) {
+        let { text, event } = frame;
+        if (event !== undefined && transformsEvents) {
           try {
-            const event = JSON.parse(text);
-            if (
-              event.type === 'response.completed' ||
-              event.type === 'error'
-            ) {
-              controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-              cleanup();
-              controller.close();
-            }
-          } catch {
-            // non-JSON frame, continue
+            event = applyEventMiddleware(middleware, event, {
+              requestId,
+              connectionId: lease.connectionId,
+              responseId: subscription?.responseId,
+            });
+          } catch (err) {
+            fail(err, 'error', 'abandon');
+            return;
+          }
+          text = JSON.stringify(event);
+        }
+
+        const receivedAt = Date.now();
+        firstFrameAt ??= receivedAt;
+        requestTrace.frame(event);
+        callHook(options?.onFrame, {
+          requestId,
+          connectionId: lease.connectionId,
+          responseId: subscription?.responseId,
+          data: text,
+          event,
+          receivedAt,
+        });
+
+        if (event === undefined) {
+          fail(
+            new WebSocketFrameError(
+              'Received a frame that is not a JSON event',
+              { data: text },
+            ),
+            'error',
+            'discard',
+          );
+          return;
+        }
+
+        const rateLimits = rateLimitsOf(event);
+        if (rateLimits) {
+          // not part of the response, the HTTP endpoint sends headers
+          usageTracker.updateRateLimits(identityKey(identity), rateLimits);
+          limiter?.update(identityKey(identity), rateLimits);
+          callHook(options?.onRateLimits, {
+            requestId,
+            connectionId: lease.connectionId,
+            rateLimits,
+          });
+          if (!lease.socket.isPaused) resetInactivityTimer();
+          return;
+        }
+
+        if (state === 'waiting') {
+          if (chained && isPreviousResponseNotFound(event)) {
+            // the server no longer has the previous response, so the
+            // same connection can still take the full request
+            send({ chain: false });
+            return;
           }
         }
 
-        function onError(err: Error) {
-          cleanup();
-          controller.error(err);
+        if (!streamResponse) {
+          aggregate(event);
+          return;
         }
 
-        function onClose() {
-          cleanup();
-          try {
-            controller.close();
-          } catch {
-            // already closed
+        if (state === 'waiting') {
+          if (event?.type === 'error') {
+            finish('error', { response: errorEventToResponse(event) });
+            return;
           }
+
+          state = 'streaming';
+          resolveResponse(
+            new Response(responseStream, {
+              status: 200,
+              headers: { 'content-type': 'text/event-stream' },
+            }),
+          );
+        }
+
+        controller.enqueue(encoder.encode(toServerSentEvent(text, event)));
+
+        if (isTerminalEvent(event)) {
+          rememberTurn(event);
+          recordUsage(event);
+          finish(terminalOutcome(event));
+          controller.close();
+          return;
+        }
+
+        if ((controller.desiredSize ?? 1) <= 0 && pauseReading()) {
+          // no events arrive while paused, the timer restarts on resume
+          clearTimeout(inactivityTimer);
+        } else {
+          resetInactivityTimer();
+        }
+      }
+
+      // a non-streaming request resolves with the final response only
+      function aggregate(event: Record<string, unknown> | undefined) {
+        if (event?.type === 'error') {
+          finish('error', { response: errorEventToResponse(event) });
+          return;
+        }
+
+        state = 'streaming';
+
+        if (isTerminalEvent(event)) {
+          rememberTurn(event);
+          recordUsage(event);
+          finish(terminalOutcome(event), {
+            response: Response.json(event?.response ?? null),
+          });
+          return;
+        }
+
+        resetInactivityTimer();
+      }
+
+      function rememberTurn(event: Record<string, unknown> | undefined) {
+        const turn = options?.chainResponses
+          ? completedTurn(requestBody, event)
+          : undefined;
+        if (turn) turns.set(lease.socket, turn);
+      }
+
+      function recordUsage(event: Record<string, unknown> | undefined) {
+        const usage = usageOf(event);
+        if (!usage) return;
+        usageTracker.addUsage(usage);
+        if (ticket) limiter?.settle(ticket, usage.totalTokens);
+        callHook(options?.onUsage, {
+          requestId,
+          connectionId: lease.connectionId,
+          responseId: subscription?.responseId,
+          model,
+          usage,
+        });
+      }
+
+      // 'close' always follows 'error' and decides what to do
+      function onError(err: unknown) {
+        socketError = err;
+      }
+
+      function onClose() {
+        if (socketError instanceof WebSocketFrameError) {
+          // the same frame would arrive again if the request was replayed
+          fail(socketError, 'error');
+          return;
+        }
+
+        if (state === 'streaming') {
+          fail(
+            new Error(
+              'WebSocket connection closed before the response completed',
+              { cause: socketError },
+            ),
+            'error',
+          );
+          return;
         }
 
-        connection.on('message', onMessage);
-        connection.on('error', onError);
-        connection.on('close', onClose);
+        // nothing was streamed yet, so the request can be replayed
+        detach();
+        retry();
+      }
 
-        if (init?.signal) {
-          if (init.signal.aborted) {
-            cleanup();
-            controller.error(
-              init.signal.reason ??
-                new DOMException('Aborted', 'AbortError'),
-            );
+      function onAbort() {
+        fail(
+          signal!.reason ?? new DOMException('Aborted', 'AbortError'),
+          'aborted',
+          'abandon',
+        );
+      }
+
+      // no connection could be opened to replay the request on, and
+      // nothing was streamed, so it can be sent over HTTP
+      function fallBack(error: unknown) {
+        reportFallback('connection-failed', error);
+        finish('fallback', { error });
+        fetchOverHttp().then(resolve, rejectResponse);
+      }
+
+      async function retry() {
+        if (budget.remaining <= 0) {
+          // the server accepted the connection and may have received the
+          // request, so it is neither sent again over HTTP nor counted
+          // against the endpoint's circuit
+          fail(
+            new Error(
+              'WebSocket connection closed before the response started',
+              { cause: socketError },
+            ),
+            'error',
+          );
+          return;
+        }
+
+        try {
+          await budget.wait(signal);
+          const acquireStart = Date.now();
+          lease = await pool.acquire(identity, signal, undefined, budget);
+          breaker?.success(identity.url);
+          requestTrace.acquired(lease, acquireStart);
+        } catch (err) {
+          if (state === 'done') return;
+          if (canFallBack(err)) {
+            fallBack(err);
+            return;
+          }
+          if (err instanceof WebSocketHandshakeError) {
+            finish('error', {
+              response: handshakeErrorToResponse(err),
+              error: err,
+            });
             return;
           }
-          init.signal.addEventListener(
-            'abort',
-            () => {
-              cleanup();
-              try {
-                controller.error(
-                  init!.signal!.reason ??
-                    new DOMException('Aborted', 'AbortError'),
-                );
-              } catch {
-                // already closed
-              }
-            },
-            { once: true },
+          fail(err, signal?.aborted ? 'aborted' : 'error');
+          return;
+        }
+
+        if (state === 'done') {
+          lease.release();
+          return;
+        }
+
+        socketError = undefined;
+        send();
+      }
+
+      function send({ chain = true }: { chain?: boolean } = {}) {
+        const chainedBody = chain ? chainOn?.(lease.socket) : undefined;
+        chained = chainedBody !== undefined;
+        // the connection's next response replaces the previous one
+        turns.delete(lease.socket);
+
+        let message: Record<string, unknown>;
+        try {
+          message = applyMessageMiddleware(
+            middleware,
+            { type: 'response.create', ...(chainedBody ?? requestBody) },
+            { requestId, connectionId: lease.connectionId, chained },
           );
+        } catch (err) {
+          fail(err, 'error');
+          return;
         }
 
-        connection.send(
-          JSON.stringify({ type: 'response.create', ...requestBody }),
+        subscription = lease.dispatcher.subscribe(onFrame);
+        lease.socket.on('error', onError);
+        lease.socket.on('close', onClose);
+        lease.socket.send(JSON.stringify(message));
+        requestTrace.sent();
+        resetInactivityTimer();
+
+        if (sentAt === undefined) {
+          callHook(options?.onRequestStart, {
+            requestId,
+            connectionId: lease.connectionId,
+            model,
+            reused: lease.reused,
+            chained,
+            startTime,
+            acquireMs,
+          });
+        }
+        sentAt = Date.now();
+      }
+
+      if (signal?.aborted) {
+        // nothing was sent, so the connection stays reusable
+        fail(
+          signal.reason ?? new DOMException('Aborted', 'AbortError'),
+          'aborted',
         );
-      },
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      send();
     });
+  }
+
+  let unregisterExit: (() => void) | undefined;
+
+  // registered again when the instance is used after `close`
+  function registerExit() {
+    if (options?.closeOnExit && !unregisterExit) {
+      // through the instance, so a shared instance is removed as well
+      unregisterExit = closeOnExit(graceful =>
+        instance.close({ graceful }),
+      );
+    }
+  }
+  registerExit();
+
+  function preconnect(options?: PreconnectOptions): Promise<void> {
+    registerExit();
+    const headers = normalizeHeaders(options?.headers);
+    const authorization = options?.authorization ?? defaultAuthorization();
+    if (authorization) headers['authorization'] = authorization;
+    if (options?.organization) {
+      headers['openai-organization'] = options.organization;
+    }
+    if (options?.project) headers['openai-project'] = options.project;
+
+    return pool.preconnect(
+      identityFor(
+        options?.url ?? 'https://api.openai.com/v1/responses',
+        headers,
+      ),
+      options?.signal,
+    );
+  }
 
-    return new Response(responseStream, {
-      status: 200,
-      headers: { 'content-type': 'text/event-stream' },
+  if (options?.preconnect) {
+    preconnect(
+      options.preconnect === true ? undefined : options.preconnect,
+    ).catch(() => {
+      // the first request connects (and reports errors) on its own
     });
   }
 
-  return Object.assign(websocketFetch, {
-    /** Close the underlying WebSocket connection. */
-    close() {
-      if (ws) {
-        ws.close();
-        ws = null;
+  const instance = Object.assign(websocketFetch, {
+    /**
+     * Open a connection ahead of the first request, so that the handshake
+     * overlaps with other work. Resolves once the connection is open.
+     */
+    preconnect,
+
+    /**
+     * Token usage summed over all responses, and the latest rate limits
+     * reported by the server.
+     */
+    usage(): UsageSnapshot {
+      return usageTracker.snapshot();
+    },
+
+    /** Start summing usage from zero. Rate limits are kept. */
+    resetUsage() {
+      usageTracker.reset();
+    },
+
+    /**
+     * Close all pooled WebSocket connections. Requests in progress fail,
+     * unless the close is `graceful`. Later requests open new connections.
+     */
+    close(options?: CloseOptions) {
+      unregisterExit?.();
+      unregisterExit = undefined;
+      if (options?.graceful) {
+        pool.close({ graceful: true });
+        return;
       }
+      generation++;
+      limiter?.close();
+      pool.close();
     },
   });
+  return instance;
 }
 
-function normalizeHeaders(
-  headers: HeadersInit | undefined,
-): Record<string, string> {
-  const result: Record<string, string> = {};
-  if (!headers) return result;
+export type WebSocketFetch = ReturnType<typeof createWebSocketFetch>;
 
-  if (headers instanceof Headers) {
-    headers.forEach((v, k) => {
-      result[k.toLowerCase()] = v;
-    });
-  } else if (Array.isArray(headers)) {
-    for (const [k, v] of headers) {
-      result[k.toLowerCase()] = v;
-    }
-  } else {
-    for (const [k, v] of Object.entries(headers)) {
-      if (v != null) result[k.toLowerCase()] = v;
-    }
-  }
+/**
+ * Where `getSharedWebSocketFetch` keeps its instances. A `Map` works.
+ */
+export interface WebSocketFetchStore {
+  get(name: string): WebSocketFetch | undefined;
+  set(name: string, wsFetch: WebSocketFetch): void;
+  delete(name: string): void;
+}
+
+export interface SharedWebSocketFetchOptions extends Omit<
+  CreateWebSocketFetchOptions,
+  'closeOnExit'
+> {
+  /**
+   * Name of the shared instance. Each name has its own pool.
+   * @default 'default'
+   */
+  name?: string;
+
+  /**
+   * Where instances are kept.
+   * @default a registry on `globalThis`, shared by all copies of this
+   * package in the process and kept across module reloads
+   */
+  store?: WebSocketFetchStore;
+
+  /**
+   * Close the instance when the process receives `SIGTERM` or is about to
+   * exit.
+   * @default true
+   */
+  closeOnExit?: boolean;
+}
+
+const SHARED_STORE = Symbol.for('ai-sdk-openai-websocket-fetch.shared');
+
+/**
+ * Returns the process-wide `wsFetch` instance named `options.name`,
+ * creating it on the first call. Warm serverless invocations of the same
+ * instance reuse its open connections, so only a cold start pays for the
+ * handshake. Options only take effect when the instance is created.
+ *
+ * Closing the instance removes it, so the next call creates a new one.
+ *
+ * @example
+ * ```ts
+ * const openai = createOpenAI({
+ *   fetch: getSharedWebSocketFetch({ lifetime: { maxAge: 600_000 } }),
+ * });
+ * ```
+ */
+export function getSharedWebSocketFetch(
+  options?: SharedWebSocketFetchOptions,
+): WebSocketFetch {
+  const {
+    name = 'default',
+    store = globalStore(),
+    ...rest
+  } = options ?? {};
+
+  const existing = store.get(name);
+  if (existing) return existing;
+
+  const wsFetch = createWebSocketFetch({
+    ...rest,
+    closeOnExit: rest.closeOnExit ?? true,
+  });
+  const close = wsFetch.close;
+  wsFetch.close = options => {
+    if (store.get(name) === wsFetch) store.delete(name);
+    close(options);
+  };
+
+  store.set(name, wsFetch);
+  return wsFetch;
+}
+
+function globalStore(): WebSocketFetchStore {
+  const registry = globalThis as {
+    [SHARED_STORE]?: Map<string, WebSocketFetch>;
+  };
+  return (registry[SHARED_STORE] ??= new Map());
+}
+
+// bytes of SSE buffered for a slow consumer before the socket is paused
+const STREAM_HIGH_WATER_MARK = 64 * 1024;
+
+/**
+ * Cancels an abandoned response on the server and releases the connection
+ * once the response has ended, so its remaining frames never reach the
+ * next request. Closes the connection instead if the cancellation is not
+ * acknowledged within `timeout` milliseconds.
+ */
+function cancelAndRelease(
+  lease: ConnectionLease,
+  subscription: Subscription,
+  timeout: number,
+) {
+  let ended = false;
+
+  const timer = setTimeout(() => {
+    lease.socket.close();
+    lease.release();
+  }, timeout);
+  timer.unref?.();
+
+  subscription.abandon().then(() => {
+    ended = true;
+    clearTimeout(timer);
+    lease.release();
+  });
+
+  // the response id is only known once the response has started
+  subscription.started.then(responseId => {
+    if (ended || lease.socket.readyState !== READY_STATE.OPEN) return;
+    lease.socket.send(
+      JSON.stringify({ type: 'response.cancel', response_id: responseId }),
+    );
+  });
+}
 
-  return result;
+// the same default as the `apiKey` setting of `createOpenAI`
+function defaultAuthorization(): string | undefined {
+  const apiKey =
+    typeof process !== 'undefined'
+      ? process.env?.OPENAI_API_KEY
+      : undefined;
+  return apiKey ? `Bearer ${apiKey}` : undefined;
 }
@@ -0,0 +1,31 @@
+export interface ConnectionLifetimeOptions {
+  /**
+   * Time in milliseconds after which a connection is closed once its
+   * current request has finished, however busy it is.
+   * @default Infinity
+   */
+  maxAge?: number;
+
+  /**
+   * Time in milliseconds after which an unused connection is closed.
+   * @default 300000
+   */
+  maxIdle?: number;
+
+  /**
+   * Number of requests after which a connection is closed.
+   * @default Infinity
+   */
+  maxRequests?: number;
+}
+
+export function resolveLifetimeOptions(
+  options: ConnectionLifetimeOptions | undefined,
+  idleTimeout: number | undefined,
+): Required<ConnectionLifetimeOptions> {
+  return {
+    maxAge: options?.maxAge ?? Infinity,
+    maxIdle: options?.maxIdle ?? idleTimeout ?? 300_000,
+    maxRequests: options?.maxRequests ?? Infinity,
+  };
+}
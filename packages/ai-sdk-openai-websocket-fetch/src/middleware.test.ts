@@ -0,0 +1,139 @@
+import { expect, it, vi } from 'vitest';
+import { TRANSPORT_HEADER, type WebSocketFetchMiddleware } from './index';
+import { post, readEvents, useMockServer } from './test/mock-server';
+
+const mock = useMockServer(undefined, { fallback: false });
+
+it('ends only requests whose message was transformed', async () => {
+  const middleware = {
+    transformMessage: vi.fn(),
+    onRequestEnd: vi.fn(),
+  } satisfies WebSocketFetchMiddleware;
+  const controller = new AbortController();
+  // aborts once the connection is open, before the message is sent
+  const wsFetch = mock.create({
+    middleware: [middleware],
+    onConnect: () => controller.abort(),
+  });
+
+  const pending = post(wsFetch, {}, { signal: controller.signal });
+  await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+
+  await (await post(wsFetch)).text();
+
+  expect(middleware.transformMessage).toHaveBeenCalledTimes(1);
+  expect(middleware.onRequestEnd).toHaveBeenCalledTimes(1);
+  expect(middleware.onRequestEnd).toHaveBeenCalledWith({
+    requestId: 2,
+    outcome: 'completed',
+  });
+});
+
+it('routes a request rewritten by transformRequest', async () => {
+  const wsFetch = mock.create({
+    middleware: [
+      {
+        transformRequest: request => ({
+          ...request,
+          url: request.url.replace('/v1/legacy', '/v1/responses'),
+          headers: { ...request.headers, 'openai-project': 'proj-1' },
+        }),
+      },
+    ],
+  });
+
+  const response = await wsFetch('https://api.openai.com/v1/legacy', {
+    method: 'POST',
+    headers: { authorization: 'Bearer sk-test' },
+    body: JSON.stringify({ model: 'gpt-test', input: 'Hello' }),
+  });
+
+  expect(response.headers.get(TRANSPORT_HEADER)).toBe('websocket');
+  expect(mock.server.handshakes[0]['openai-project']).toBe('proj-1');
+});
+
+it('sends the rewritten request over HTTP', async () => {
+  const fetch = vi.fn<typeof globalThis.fetch>(async () =>
+    Response.json({}),
+  );
+  mock.server.rejectHandshakes(Infinity, 503);
+  const wsFetch = mock.create({
+    fetch,
+    fallback: {},
+    reconnect: { maxRetries: 0 },
+    middleware: [
+      {
+        transformRequest: request => {
+          request.body.model = 'gpt-rewritten';
+        },
+      },
+    ],
+  });
+
+  const response = await post(
+    wsFetch,
+    {},
+    { headers: { 'content-length': '1', 'content-encoding': 'identity' } },
+  );
+
+  expect(response.headers.get(TRANSPORT_HEADER)).toBe('http');
+  const [url, init] = fetch.mock.calls[0];
+  expect(url).toBe('https://api.openai.com/v1/responses');
+  expect(init?.method).toBe('POST');
+  expect(init?.headers).toEqual({
+    authorization: 'Bearer sk-test',
+    'content-type': 'application/json',
+  });
+  expect(JSON.parse(String(init?.body))).toMatchObject({
+    model: 'gpt-rewritten',
+    stream: true,
+  });
+});
+
+it('runs message and event middleware in order', async () => {
+  const calls: string[] = [];
+  const onFrame = vi.fn();
+  const wsFetch = mock.create({
+    onFrame,
+    middleware: [
+      {
+        transformMessage: (message, context) => {
+          calls.push(`message 1 of request ${context.requestId}`);
+          return { ...message, metadata: { step: '1' } };
+        },
+        transformEvent: event => {
+          if (event.type !== 'response.output_text.delta') return;
+          calls.push('event 1');
+          return { ...event, delta: `${event.delta}!` };
+        },
+      },
+      {
+        transformMessage: message => {
+          calls.push('message 2');
+          message.metadata = { ...Object(message.metadata), next: '2' };
+        },
+        transformEvent: event => {
+          if (event.type !== 'response.output_text.delta') return;
+          calls.push('event 2');
+          event.delta = `${event.delta}?`;
+        },
+      },
+    ],
+  });
+
+  const events = await readEvents(await post(wsFetch));
+
+  expect(calls).toEqual([
+    'message 1 of request 1',
+    'message 2',
+    'event 1',
+    'event 2',
+  ]);
+  expect(mock.server.messages[0].metadata).toEqual({
+    step: '1',
+    next: '2',
+  });
+  expect(events[1].delta).toBe('Hi!?');
+  // observers see the transformed event as well
+  expect(onFrame.mock.calls[1][0].event.delta).toBe('Hi!?');
+});
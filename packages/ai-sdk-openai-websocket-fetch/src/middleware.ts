@@ -0,0 +1,141 @@
+import { type RequestOutcome, callHook } from './hooks';
+import type { RoutableRequest } from './routing';
+
+export interface MessageContext {
+  requestId: number;
+  connectionId: number;
+
+  /** Whether the message continues the connection's previous response. */
+  chained: boolean;
+}
+
+export interface EventContext {
+  requestId: number;
+  connectionId: number;
+
+  /** Id of the response, once known. */
+  responseId: string | undefined;
+}
+
+export interface RequestEndContext {
+  requestId: number;
+
+  /** How the request ended, as reported to the `onRequestEnd` hook. */
+  outcome: RequestOutcome;
+}
+
+/**
+ * Inspects or rewrites requests on their way through `wsFetch`. Each
+ * function may modify its argument in place or return a replacement;
+ * returning nothing keeps the argument. Middleware runs in array order,
+ * each one receiving the result of the previous one.
+ */
+export interface WebSocketFetchMiddleware {
+  /**
+   * Called for every request with a JSON body, before it is routed, so
+   * a changed URL, header or body also decides which connection is used.
+   * The rewritten request is also what is sent over HTTP, when it is not
+   * routed or falls back.
+   */
+  transformRequest?: (
+    request: RoutableRequest,
+  ) => RoutableRequest | void | Promise<RoutableRequest | void>;
+
+  /**
+   * Called with the `response.create` message before it is sent, after
+   * `chainResponses` reduced its input. Called again when the message is
+   * resent, e.g. on a new connection after the previous one dropped.
+   */
+  transformMessage?: (
+    message: Record<string, unknown>,
+    context: MessageContext,
+  ) => Record<string, unknown> | void;
+
+  /**
+   * Called with each event of the response before it is streamed or
+   * collected, and before the `onFrame` hook sees it, so redacted data
+   * does not reach logs either.
+   */
+  transformEvent?: (
+    event: Record<string, unknown>,
+    context: EventContext,
+  ) => Record<string, unknown> | void;
+
+  /**
+   * Called once a request whose message was passed to `transformMessage`
+   * has ended, whether by a terminal event, an error, an abort or a
+   * fallback to HTTP. Errors thrown here are ignored.
+   */
+  onRequestEnd?: (context: RequestEndContext) => void;
+}
+
+export async function applyRequestMiddleware(
+  middleware: WebSocketFetchMiddleware[],
+  request: RoutableRequest,
+): Promise<RoutableRequest> {
+  let result = request;
+  for (const { transformRequest } of middleware) {
+    if (transformRequest) {
+      result = (await transformRequest(result)) ?? result;
+    }
+  }
+  return result;
+}
+
+export function applyMessageMiddleware(
+  middleware: WebSocketFetchMiddleware[],
+  message: Record<string, unknown>,
+  context: MessageContext,
+): Record<string, unknown> {
+  let result = message;
+  for (const { transformMessage } of middleware) {
+    if (transformMessage) {
+      result = transformMessage(result, context) ?? result;
+    }
+  }
+  return result;
+}
+
+export function applyEventMiddleware(
+  middleware: WebSocketFetchMiddleware[],
+  event: Record<string, unknown>,
+  context: EventContext,
+): Record<string, unknown> {
+  let result = event;
+  for (const { transformEvent } of middleware) {
+    if (transformEvent) result = transformEvent(result, context) ?? result;
+  }
+  return result;
+}
+
+export function notifyRequestEnd(
+  middleware: WebSocketFetchMiddleware[],
+  context: RequestEndContext,
+): void {
+  for (const { onRequestEnd } of middleware) {
+    callHook(onRequestEnd, context);
+  }
+}
+
+/**
+ * The init to send a request rewritten by middleware over HTTP with. The
+ * body is sent as plain JSON, so length and encoding headers of the
+ * original body are dropped.
+ */
+export function toRequestInit(
+  request: RoutableRequest,
+  init: RequestInit | undefined,
+  signal: AbortSignal | undefined,
+): RequestInit {
+  const headers = { ...request.headers };
+  delete headers['content-encoding'];
+  delete headers['content-length'];
+
+  return {
+    ...init,
+    method: request.method,
+    headers,
+    body: JSON.stringify(request.body),
+    signal,
+  };
+}
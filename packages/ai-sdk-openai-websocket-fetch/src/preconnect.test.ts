@@ -0,0 +1,64 @@
+import { expect, it } from 'vitest';
+import { post, useMockServer } from './test/mock-server';
+
+const mock = useMockServer(undefined, {
+  fallback: false,
+  reconnect: { maxRetries: 0 },
+});
+
+const credentials = { authorization: 'Bearer sk-test' };
+
+it('opens a connection ahead of the first request', async () => {
+  const wsFetch = mock.create();
+
+  await wsFetch.preconnect(credentials);
+  expect(mock.server.connections).toHaveLength(1);
+
+  // already open, so nothing to do
+  await wsFetch.preconnect(credentials);
+  await (await post(wsFetch)).text();
+
+  expect(mock.server.handshakes).toHaveLength(1);
+  expect(mock.server.connections[0].messages).toHaveLength(1);
+});
+
+it('sends a request on a connection that is still opening', async () => {
+  const wsFetch = mock.create();
+
+  const preconnected = wsFetch.preconnect(credentials);
+  const response = await post(wsFetch);
+  await response.text();
+  await preconnected;
+
+  expect(mock.server.handshakes).toHaveLength(1);
+  expect(mock.server.connections[0].messages).toHaveLength(1);
+});
+
+it('opens a new connection for a request when preconnecting fails', async () => {
+  mock.server.rejectHandshakes(1, 503);
+  const wsFetch = mock.create();
+
+  const preconnected = wsFetch.preconnect(credentials);
+  const response = post(wsFetch);
+
+  await expect(preconnected).rejects.toMatchObject({ status: 503 });
+  expect((await response).status).toBe(200);
+  await (await response).text();
+  expect(mock.server.handshakes).toHaveLength(2);
+});
+
+it('connects with the credentials of the requests', async () => {
+  const wsFetch = mock.create();
+
+  await wsFetch.preconnect({
+    authorization: 'Bearer sk-other',
+    organization: 'org-1',
+    headers: { 'OpenAI-Project': 'proj-1' },
+  });
+
+  expect(mock.server.handshakes[0]).toMatchObject({
+    authorization: 'Bearer sk-other',
+    'openai-organization': 'org-1',
+    'openai-project': 'proj-1',
+  });
+});
@@ -0,0 +1,38 @@
+import { expect, it, vi } from 'vitest';
+import { TRANSPORT_HEADER } from './index';
+import { post, useMockServer } from './test/mock-server';
+
+// one request per minute, and no waiting for the next one
+const mock = useMockServer(undefined, {
+  reconnect: { maxRetries: 0 },
+  rateLimit: { requestsPerMinute: 1, maxQueueLength: 0 },
+});
+
+it('returns the reservation of a request whose connection failed', async () => {
+  mock.server.rejectHandshakes(1, 503);
+  const wsFetch = mock.create({ fallback: false });
+
+  expect((await post(wsFetch)).status).toBe(503);
+
+  const response = await post(wsFetch);
+  expect(response.status).toBe(200);
+  await response.text();
+});
+
+it('limits requests sent over HTTP', async () => {
+  mock.server.rejectHandshakes(Infinity, 503);
+  const wsFetch = mock.create({
+    fetch: vi.fn<typeof fetch>(async () => Response.json({})),
+    fallback: { failureThreshold: 1 },
+  });
+
+  const response = await post(wsFetch);
+  expect(response.headers.get(TRANSPORT_HEADER)).toBe('http');
+
+  // the endpoint's circuit is open now
+  await expect(post(wsFetch)).rejects.toMatchObject({
+    name: 'RateLimitQueueError',
+    code: 'queue_full',
+  });
+  expect(mock.server.handshakes).toHaveLength(1);
+});
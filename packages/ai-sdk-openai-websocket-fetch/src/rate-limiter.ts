@@ -0,0 +1,393 @@
+import { RateLimitQueueError } from './errors';
+import type { RoutableRequest } from './routing';
+import type { RateLimit } from './usage';
+
+export interface RateLimiterOptions {
+  /**
+   * Maximum number of requests started per minute.
+   * @default Infinity
+   */
+  requestsPerMinute?: number;
+
+  /**
+   * Maximum number of tokens per minute. A request reserves its
+   * estimated tokens when it starts, and the difference to its actual
+   * usage is settled when it completes.
+   * @default Infinity
+   */
+  tokensPerMinute?: number;
+
+  /**
+   * Also follow the limits the server reports in `rate_limits.updated`
+   * events, so requests wait instead of running into `429` errors when
+   * other clients share the API key.
+   * @default true
+   */
+  serverLimits?: boolean;
+
+  /**
+   * Maximum number of waiting requests per API key. Further requests fail
+   * with a `RateLimitQueueError`.
+   * @default Infinity
+   */
+  maxQueueLength?: number;
+
+  /**
+   * Time in milliseconds a request may wait before it fails with a
+   * `RateLimitQueueError`.
+   * @default Infinity
+   */
+  queueTimeout?: number;
+
+  /**
+   * The priority of a request. Requests with a higher priority start
+   * first, requests with the same priority in the order they were made.
+   * @default () => 0
+   */
+  priority?: (request: RoutableRequest) => number;
+
+  /**
+   * Estimates the tokens of a request before it is sent.
+   * @default a quarter of the length of the input, plus `max_output_tokens`
+   */
+  estimateTokens?: (request: RoutableRequest) => number;
+}
+
+export function resolveRateLimiterOptions(
+  options: RateLimiterOptions,
+): Required<RateLimiterOptions> {
+  return {
+    requestsPerMinute: options.requestsPerMinute ?? Infinity,
+    tokensPerMinute: options.tokensPerMinute ?? Infinity,
+    serverLimits: options.serverLimits ?? true,
+    maxQueueLength: options.maxQueueLength ?? Infinity,
+    queueTimeout: options.queueTimeout ?? Infinity,
+    priority: options.priority ?? (() => 0),
+    estimateTokens: options.estimateTokens ?? estimateTokens,
+  };
+}
+
+/** The default token estimate of a request. */
+export function estimateTokens(request: RoutableRequest): number {
+  const input = JSON.stringify(request.body.input ?? '');
+  const maxOutput = request.body.max_output_tokens;
+  return (
+    Math.ceil(input.length / 4) +
+    (typeof maxOutput === 'number' ? maxOutput : 0)
+  );
+}
+
+/** What a started request reserved, to settle once its usage is known. */
+export interface RateLimitTicket {
+  key: string;
+  tokens: number;
+}
+
+interface Bucket {
+  capacity: number;
+  level: number;
+  refillPerMs: number;
+  updatedAt: number;
+
+  /** Whether the bucket has the configured limit, not the server's. */
+  configured: boolean;
+}
+
+interface Waiter {
+  priority: number;
+  tokens: number;
+  start: () => void;
+  fail: (error: unknown) => void;
+}
+
+interface Lane {
+  requests: Bucket | undefined;
+  tokens: Bucket | undefined;
+  queue: Waiter[];
+  timer: ReturnType<typeof setTimeout> | undefined;
+}
+
+/**
+ * Schedules requests within requests-per-minute and tokens-per-minute
+ * limits, with token buckets that refill continuously. Each API key
+ * (connection identity) has its own buckets and queue, since the server
+ * limits each key separately.
+ *
+ * Waiting requests start in order of priority. A request that does not
+ * fit yet holds back those behind it, so large requests are not starved
+ * by a stream of small ones.
+ */
+export function createRateLimiter(options: Required<RateLimiterOptions>) {
+  const lanes = new Map<string, Lane>();
+
+  function laneFor(key: string): Lane {
+    let lane = lanes.get(key);
+    if (!lane) {
+      lane = {
+        requests: configuredBucket(options.requestsPerMinute),
+        tokens: configuredBucket(options.tokensPerMinute),
+        queue: [],
+        timer: undefined,
+      };
+      lanes.set(key, lane);
+    }
+    return lane;
+  }
+
+  function tryTake(lane: Lane, tokens: number): boolean {
+    const now = Date.now();
+    if (lane.requests) refill(lane.requests, now);
+    if (lane.tokens) refill(lane.tokens, now);
+
+    const needed = tokensNeeded(lane, tokens);
+    if (lane.requests && lane.requests.level < 1) return false;
+    if (lane.tokens && lane.tokens.level < needed) return false;
+
+    if (lane.requests) lane.requests.level -= 1;
+    if (lane.tokens) lane.tokens.level -= needed;
+    return true;
+  }
+
+  function drain(lane: Lane) {
+    clearTimeout(lane.timer);
+    lane.timer = undefined;
+
+    while (lane.queue.length > 0 && tryTake(lane, lane.queue[0].tokens)) {
+      lane.queue.shift()!.start();
+    }
+
+    if (lane.queue.length > 0) {
+      lane.timer = setTimeout(
+        () => drain(lane),
+        waitTime(lane, lane.queue[0].tokens),
+      );
+    }
+  }
+
+  return {
+    /**
+     * Resolves once the request may start, after reserving one request
+     * and its estimated tokens for `key`.
+     */
+    acquire(
+      key: string,
+      request: RoutableRequest,
+      signal?: AbortSignal,
+    ): Promise<RateLimitTicket> {
+      if (signal?.aborted) {
+        return Promise.reject(
+          signal.reason ?? new DOMException('Aborted', 'AbortError'),
+        );
+      }
+
+      const lane = laneFor(key);
+      const tokens = Math.max(0, options.estimateTokens(request));
+      const ticket: RateLimitTicket = { key, tokens };
+      if (lane.queue.length === 0 && tryTake(lane, tokens)) {
+        return Promise.resolve(ticket);
+      }
+
+      if (lane.queue.length >= options.maxQueueLength) {
+        return Promise.reject(
+          new RateLimitQueueError(
+            'queue_full',
+            `Rate limit queue is full (${options.maxQueueLength} requests)`,
+          ),
+        );
+      }
+
+      return new Promise<RateLimitTicket>((resolve, reject) => {
+        let timeout: ReturnType<typeof setTimeout> | undefined;
+
+        function cleanup() {
+          clearTimeout(timeout);
+          signal?.removeEventListener('abort', onAbort);
+        }
+
+        function remove(error: unknown) {
+          const index = lane.queue.indexOf(waiter);
+          if (index !== -1) lane.queue.splice(index, 1);
+          waiter.fail(error);
+          // the requests behind it may fit now
+          drain(lane);
+        }
+
+        function onAbort() {
+          remove(
+            signal!.reason ?? new DOMException('Aborted', 'AbortError'),
+          );
+        }
+
+        const waiter: Waiter = {
+          priority: options.priority(request),
+          tokens,
+          start() {
+            cleanup();
+            resolve(ticket);
+          },
+          fail(error) {
+            cleanup();
+            reject(error);
+          },
+        };
+
+        // after the last waiter with the same or a higher priority
+        let index = lane.queue.length;
+        while (
+          index > 0 &&
+          lane.queue[index - 1].priority < waiter.priority
+        ) {
+          index--;
+        }
+        lane.queue.splice(index, 0, waiter);
+
+        if (Number.isFinite(options.queueTimeout)) {
+          timeout = setTimeout(() => {
+            remove(
+              new RateLimitQueueError(
+                'queue_timeout',
+                `Request waited longer than ${options.queueTimeout}ms ` +
+                  `for the rate limit`,
+              ),
+            );
+          }, options.queueTimeout);
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        drain(lane);
+      });
+    },
+
+    /**
+     * Corrects the reserved tokens of a completed request with its actual
+     * usage.
+     */
+    settle(ticket: RateLimitTicket, actualTokens: number) {
+      const lane = lanes.get(ticket.key);
+      if (!lane?.tokens) return;
+      refill(lane.tokens, Date.now());
+      lane.tokens.level -=
+        tokensNeeded(lane, actualTokens) -
+        tokensNeeded(lane, ticket.tokens);
+      drain(lane);
+    },
+
+    /**
+     * Returns the request and tokens reserved by a request that never
+     * reached the server, e.g. because no connection could be opened.
+     */
+    refund(ticket: RateLimitTicket) {
+      const lane = lanes.get(ticket.key);
+      if (!lane) return;
+      const now = Date.now();
+      if (lane.requests) {
+        refill(lane.requests, now);
+        lane.requests.level = Math.min(
+          lane.requests.capacity,
+          lane.requests.level + 1,
+        );
+      }
+      if (lane.tokens) {
+        refill(lane.tokens, now);
+        lane.tokens.level = Math.min(
+          lane.tokens.capacity,
+          lane.tokens.level + tokensNeeded(lane, ticket.tokens),
+        );
+      }
+      drain(lane);
+    },
+
+    /** Applies the limits the server reported for `key`. */
+    update(key: string, rateLimits: RateLimit[]) {
+      if (!options.serverLimits) return;
+
+      const lane = laneFor(key);
+      for (const limit of rateLimits) {
+        if (limit.name !== 'requests' && limit.name !== 'tokens') continue;
+        if (!Number.isFinite(limit.limit) || limit.limit <= 0) continue;
+        if (!Number.isFinite(limit.remaining)) continue;
+        lane[limit.name] = fromServer(lane[limit.name], limit);
+      }
+      drain(lane);
+    },
+
+    /**
+     * Fails all waiting requests. The buckets are kept, so later requests
+     * still count against what was used before.
+     */
+    close() {
+      for (const lane of lanes.values()) {
+        clearTimeout(lane.timer);
+        lane.timer = undefined;
+        for (const waiter of lane.queue.splice(0)) {
+          waiter.fail(new Error('WebSocket fetch has been closed'));
+        }
+      }
+    },
+  };
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+function configuredBucket(perMinute: number): Bucket | undefined {
+  if (!Number.isFinite(perMinute)) return undefined;
+  return {
+    capacity: perMinute,
+    level: perMinute,
+    refillPerMs: perMinute / 60_000,
+    updatedAt: Date.now(),
+    configured: true,
+  };
+}
+
+// the server's view is authoritative: a configured limit is lowered to
+// what remains, and without one the bucket follows the server's limit
+function fromServer(bucket: Bucket | undefined, limit: RateLimit): Bucket {
+  const now = Date.now();
+  if (bucket?.configured) {
+    refill(bucket, now);
+    bucket.level = Math.min(bucket.level, limit.remaining);
+    return bucket;
+  }
+
+  const missing = limit.limit - limit.remaining;
+  return {
+    capacity: limit.limit,
+    level: limit.remaining,
+    refillPerMs:
+      missing > 0 && limit.resetSeconds > 0
+        ? missing / (limit.resetSeconds * 1000)
+        : limit.limit / 60_000,
+    updatedAt: now,
+    configured: false,
+  };
+}
+
+function refill(bucket: Bucket, now: number) {
+  bucket.level = Math.min(
+    bucket.capacity,
+    bucket.level + (now - bucket.updatedAt) * bucket.refillPerMs,
+  );
+  bucket.updatedAt = now;
+}
+
+// a request larger than the bucket waits for a full bucket instead of
+// forever
+function tokensNeeded(lane: Lane, tokens: number): number {
+  return lane.tokens ? Math.min(tokens, lane.tokens.capacity) : tokens;
+}
+
+function waitTime(lane: Lane, tokens: number): number {
+  let wait = 0;
+  if (lane.requests && lane.requests.level < 1) {
+    wait = (1 - lane.requests.level) / lane.requests.refillPerMs;
+  }
+  const needed = tokensNeeded(lane, tokens);
+  if (lane.tokens && lane.tokens.level < needed) {
+    wait = Math.max(
+      wait,
+      (needed - lane.tokens.level) / lane.tokens.refillPerMs,
+    );
+  }
+  return Math.max(1, Math.ceil(wait));
+}
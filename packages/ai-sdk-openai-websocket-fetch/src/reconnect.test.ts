@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  post,
+  readEvents,
+  respond,
+  responseEvents,
+  useMockServer,
+} from './test/mock-server';
+
+const mock = useMockServer(undefined, {
+  fallback: false,
+  reconnect: { initialDelay: 1, jitter: false },
+});
+
+describe('reconnect', () => {
+  it('replays a request whose connection dropped before the first event', async () => {
+    mock.server.handle((message, connection) => {
+      if (connection.id === 1) {
+        connection.socket.terminate();
+      } else {
+        respond(message, connection);
+      }
+    });
+    const wsFetch = mock.create();
+
+    const events = await readEvents(await post(wsFetch));
+    expect(events.at(-1)?.type).toBe('response.completed');
+    expect(mock.server.messages).toHaveLength(2);
+    expect(mock.server.messages[1]).toEqual(mock.server.messages[0]);
+  });
+
+  it('errors a stream whose connection drops mid-response', async () => {
+    mock.server.handle((message, connection) => {
+      connection.send(responseEvents()[0]);
+      setTimeout(() => connection.socket.terminate(), 10);
+    });
+    const wsFetch = mock.create();
+
+    const response = await post(wsFetch);
+    await expect(response.text()).rejects.toThrow(
+      'WebSocket connection closed before the response completed',
+    );
+    expect(mock.server.messages).toHaveLength(1);
+  });
+
+  it('retries a failed handshake', async () => {
+    mock.server.rejectHandshakes(2, 503);
+    const wsFetch = mock.create();
+
+    const events = await readEvents(await post(wsFetch));
+    expect(events.at(-1)?.type).toBe('response.completed');
+    expect(mock.server.handshakes).toHaveLength(3);
+  });
+});
+
+describe('retry budget', () => {
+  it('retries a failing handshake maxRetries times in total', async () => {
+    mock.server.rejectHandshakes(Infinity, 503);
+    const wsFetch = mock.create({
+      reconnect: { maxRetries: 3, initialDelay: 1 },
+    });
+
+    const response = await post(wsFetch);
+    expect(response.status).toBe(503);
+    expect(mock.server.handshakes).toHaveLength(4);
+  });
+
+  it('shares the retries between handshakes and replays', async () => {
+    mock.server.handle((message, connection) =>
+      connection.socket.terminate(),
+    );
+    const wsFetch = mock.create({
+      reconnect: { maxRetries: 3, initialDelay: 1 },
+    });
+
+    await expect(post(wsFetch)).rejects.toThrow(
+      'WebSocket connection closed before the response started',
+    );
+    expect(mock.server.handshakes).toHaveLength(4);
+    expect(mock.server.messages).toHaveLength(4);
+  });
+
+  it('spends replays on failed handshakes as well', async () => {
+    mock.server.handle((message, connection) => {
+      mock.server.rejectHandshakes(Infinity, 503);
+      connection.socket.terminate();
+    });
+    const wsFetch = mock.create({
+      reconnect: { maxRetries: 3, initialDelay: 1 },
+    });
+
+    const response = await post(wsFetch);
+    expect(response.status).toBe(503);
+    expect(mock.server.handshakes).toHaveLength(4);
+    expect(mock.server.messages).toHaveLength(1);
+  });
+});
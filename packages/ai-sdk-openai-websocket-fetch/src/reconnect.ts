@@ -0,0 +1,118 @@
+export interface ReconnectOptions {
+  /**
+   * Maximum number of retries of a request, counting both failed
+   * connection attempts and replays after the connection dropped before
+   * the first event of a response.
+   * @default 3
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay in milliseconds before the first retry.
+   * @default 250
+   */
+  initialDelay?: number;
+
+  /**
+   * Upper bound for the delay between retries in milliseconds.
+   * @default 5000
+   */
+  maxDelay?: number;
+
+  /**
+   * Multiplier applied to the delay after each retry.
+   * @default 2
+   */
+  factor?: number;
+
+  /**
+   * Randomize each delay between zero and its computed value, so that
+   * many clients reconnecting at once do not retry in lockstep.
+   * @default true
+   */
+  jitter?: boolean;
+}
+
+export function resolveReconnectOptions(
+  options: ReconnectOptions | false | undefined,
+): Required<ReconnectOptions> {
+  if (options === false) {
+    return {
+      maxRetries: 0,
+      initialDelay: 0,
+      maxDelay: 0,
+      factor: 1,
+      jitter: false,
+    };
+  }
+
+  return {
+    maxRetries: options?.maxRetries ?? 3,
+    initialDelay: options?.initialDelay ?? 250,
+    maxDelay: options?.maxDelay ?? 5000,
+    factor: options?.factor ?? 2,
+    jitter: options?.jitter ?? true,
+  };
+}
+
+/**
+ * Returns the delay before retry number `attempt` (starting at 0).
+ */
+export function backoffDelay(
+  attempt: number,
+  options: Required<ReconnectOptions>,
+): number {
+  const delay = Math.min(
+    options.maxDelay,
+    options.initialDelay * options.factor ** attempt,
+  );
+  return options.jitter ? Math.random() * delay : delay;
+}
+
+/**
+ * The retries of one request, shared by its connection attempts and its
+ * replays after a dropped connection, so that nested retries cannot
+ * multiply.
+ */
+export interface RetryBudget {
+  /** Number of retries left. */
+  readonly remaining: number;
+
+  /** Takes a retry and waits for its backoff delay. */
+  wait(signal?: AbortSignal): Promise<void>;
+}
+
+export function createRetryBudget(
+  options: Required<ReconnectOptions>,
+): RetryBudget {
+  let used = 0;
+  return {
+    get remaining() {
+      return options.maxRetries - used;
+    },
+    wait(signal) {
+      return sleep(backoffDelay(used++, options), signal);
+    },
+  };
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal!.reason ?? new DOMException('Aborted', 'AbortError'));
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
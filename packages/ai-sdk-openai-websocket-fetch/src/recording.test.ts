@@ -0,0 +1,90 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, expect, it } from 'vitest';
+import {
+  createRecorder,
+  createReplayWebSocketFactory,
+  readFixture,
+} from './index';
+import {
+  post,
+  readEvents,
+  respond,
+  responseEvents,
+  useMockServer,
+} from './test/mock-server';
+
+// `partial` responses only end when they are cancelled
+const mock = useMockServer((message, connection) => {
+  if (message.type === 'response.cancel') {
+    connection.send({
+      type: 'response.cancelled',
+      response: { id: message.response_id, status: 'cancelled' },
+    });
+  } else if (message.model === 'partial') {
+    const [created, delta] = responseEvents();
+    connection.send(created);
+    connection.send(delta);
+  } else {
+    respond(message, connection);
+  }
+});
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'websocket-fetch-'));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+it('replays what was recorded, without unfinished responses', async () => {
+  const path = join(dir, 'fixture.json');
+  const recorder = createRecorder({ path });
+  const recording = mock.create({ middleware: [recorder] });
+
+  const recorded = await readEvents(await post(recording));
+
+  const controller = new AbortController();
+  const aborted = await post(
+    recording,
+    { model: 'partial' },
+    { signal: controller.signal },
+  );
+  const reader = aborted.body!.getReader();
+  await reader.read();
+  controller.abort();
+  await reader.read().catch(() => {});
+
+  const collected = await (
+    await post(recording, { stream: false, input: 'Once more' })
+  ).json();
+
+  recording.close();
+  await recorder.flush();
+
+  const fixture = await readFixture(path);
+  expect(fixture).toEqual(recorder.fixture);
+  expect(fixture.interactions.map(({ request }) => request.model)).toEqual(
+    ['gpt-test', 'gpt-test'],
+  );
+
+  const replaying = mock.create({
+    fallback: false,
+    createWebSocket: createReplayWebSocketFactory(path),
+  });
+
+  expect(await readEvents(await post(replaying))).toEqual(recorded);
+  expect(
+    await (
+      await post(replaying, { stream: false, input: 'Once more' })
+    ).json(),
+  ).toEqual(collected);
+
+  const missing = await post(replaying, { model: 'partial' });
+  expect(missing.status).toBe(400);
+  expect((await missing.json()).error.code).toBe('replay_not_found');
+});
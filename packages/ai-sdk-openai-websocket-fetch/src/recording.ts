@@ -0,0 +1,152 @@
+import { isTerminalEvent } from './events';
+import type { WebSocketFetchMiddleware } from './middleware';
+
+/** Recorded `response.create` messages and the events they produced. */
+export interface Fixture {
+  version: 1;
+  interactions: RecordedInteraction[];
+}
+
+export interface RecordedInteraction {
+  /** The `response.create` message as it was sent. */
+  request: Record<string, unknown>;
+
+  events: RecordedEvent[];
+}
+
+export interface RecordedEvent {
+  /**
+   * Time in milliseconds since the previous event, or since the request
+   * was sent for the first event.
+   */
+  delayMs: number;
+
+  event: Record<string, unknown>;
+}
+
+export interface RecorderOptions {
+  /**
+   * File the fixture is written to after each response, as JSON. Only
+   * available on runtimes with `node:fs`.
+   */
+  path?: string;
+}
+
+export interface Recorder extends WebSocketFetchMiddleware {
+  /** The interactions recorded so far. */
+  readonly fixture: Fixture;
+
+  /**
+   * Resolves once the fixture has been written to `path`, and rejects if
+   * writing it failed.
+   */
+  flush(): Promise<void>;
+}
+
+/**
+ * Records every `response.create` message and the events of its response
+ * into a fixture, for `createReplayWebSocketFactory` to serve later. Pass
+ * it as middleware; events are recorded as received, before other
+ * middleware later in the array rewrites them. Responses that did not
+ * reach a terminal event, e.g. because the request was aborted, are left
+ * out.
+ *
+ * @example
+ * const recorder = createRecorder({ path: 'fixtures/weather.json' });
+ * const wsFetch = createWebSocketFetch({ middleware: [recorder] });
+ */
+export function createRecorder(options?: RecorderOptions): Recorder {
+  const fixture: Fixture = { version: 1, interactions: [] };
+  // the interaction each request is recording, with its last event time
+  const active = new Map<
+    number,
+    { interaction: RecordedInteraction; lastAt: number }
+  >();
+  let writing: Promise<void> = Promise.resolve();
+  let writeError: unknown;
+
+  function write() {
+    const path = options?.path;
+    if (!path) return;
+    const data = JSON.stringify(fixture, null, 2);
+    writing = writing
+      .then(() => writeFixture(path, data))
+      .catch(error => {
+        writeError = error;
+      });
+  }
+
+  return {
+    fixture,
+
+    transformMessage(message, { requestId }) {
+      // a resent message replaces the attempt that did not complete
+      const previous = active.get(requestId);
+      if (previous) {
+        fixture.interactions.splice(
+          fixture.interactions.indexOf(previous.interaction),
+          1,
+        );
+      }
+
+      const interaction: RecordedInteraction = {
+        request: structuredClone(message),
+        events: [],
+      };
+      fixture.interactions.push(interaction);
+      active.set(requestId, { interaction, lastAt: Date.now() });
+    },
+
+    transformEvent(event, { requestId }) {
+      const recording = active.get(requestId);
+      if (!recording) return;
+
+      const now = Date.now();
+      recording.interaction.events.push({
+        delayMs: now - recording.lastAt,
+        event: structuredClone(event),
+      });
+      recording.lastAt = now;
+
+      if (isTerminalEvent(event)) {
+        active.delete(requestId);
+        write();
+      }
+    },
+
+    onRequestEnd({ requestId }) {
+      // a response without a terminal event, e.g. of an aborted request,
+      // would never end when replayed, so it is not kept
+      const recording = active.get(requestId);
+      if (!recording) return;
+      active.delete(requestId);
+      fixture.interactions.splice(
+        fixture.interactions.indexOf(recording.interaction),
+        1,
+      );
+      write();
+    },
+
+    async flush() {
+      await writing;
+      if (writeError !== undefined) throw writeError;
+    },
+  };
+}
+
+/** Reads a fixture written by `createRecorder`. */
+export async function readFixture(path: string): Promise<Fixture> {
+  const { readFile } = await import('node:fs/promises');
+  const fixture = JSON.parse(await readFile(path, 'utf8'));
+  if (fixture?.version !== 1 || !Array.isArray(fixture.interactions)) {
+    throw new Error(`${path} is not a WebSocket fetch fixture`);
+  }
+  return fixture;
+}
+
+async function writeFixture(path: string, data: string): Promise<void> {
+  const { mkdir, writeFile } = await import('node:fs/promises');
+  const { dirname } = await import('node:path');
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, data);
+}
@@ -0,0 +1,261 @@
+import { isRecord, valueAt } from './events';
+import {
+  type Fixture,
+  type RecordedEvent,
+  type RecordedInteraction,
+  readFixture,
+} from './recording';
+import {
+  READY_STATE,
+  type WebSocketFactory,
+  type WebSocketLike,
+} from './socket';
+
+export interface ReplayOptions {
+  /**
+   * `original` waits the recorded time between events, `compressed` sends
+   * them one after another without waiting.
+   * @default 'compressed'
+   */
+  timing?: 'original' | 'compressed';
+
+  /**
+   * Whether a recorded request matches a sent one. Replace it to ignore
+   * parts of the request that change between runs, such as dates in the
+   * instructions.
+   * @default deep equality of the JSON messages
+   */
+  match?: (
+    recorded: Record<string, unknown>,
+    sent: Record<string, unknown>,
+  ) => boolean;
+}
+
+/**
+ * Creates fake connections that answer `response.create` messages with
+ * the events of a fixture written by `createRecorder`, without network
+ * access. Each message gets the first unused interaction with a matching
+ * request, or the first matching one if all have been used. A message
+ * without a match gets an `error` event, which becomes a `400` response.
+ *
+ * @param fixture The fixture, or the path of its file on runtimes with
+ * `node:fs`.
+ *
+ * @example
+ * const wsFetch = createWebSocketFetch({
+ *   createWebSocket: createReplayWebSocketFactory('fixtures/weather.json'),
+ * });
+ */
+export function createReplayWebSocketFactory(
+  fixture: Fixture | string,
+  options?: ReplayOptions,
+): WebSocketFactory {
+  const timing = options?.timing ?? 'compressed';
+  const match = options?.match ?? isSameMessage;
+  let loaded: Promise<Fixture> | undefined;
+  // how often each interaction was served, and the response ids given to
+  // repeated replays, which must differ from the recorded ones
+  const served = new Map<RecordedInteraction, number>();
+  const aliases = new Map<string, string>();
+
+  function find(
+    interactions: RecordedInteraction[],
+    message: Record<string, unknown>,
+  ): Replay | undefined {
+    const previous = message.previous_response_id;
+    const sent =
+      typeof previous === 'string' && aliases.has(previous)
+        ? { ...message, previous_response_id: aliases.get(previous) }
+        : message;
+
+    const matching = interactions.filter(interaction =>
+      match(interaction.request, sent),
+    );
+    const interaction =
+      matching.find(candidate => !served.has(candidate)) ?? matching[0];
+    if (!interaction) return undefined;
+
+    const count = (served.get(interaction) ?? 0) + 1;
+    served.set(interaction, count);
+    if (count === 1) return interaction;
+
+    const rename = (id: string) => {
+      const alias = `${id}_replay${count}`;
+      aliases.set(alias, id);
+      return alias;
+    };
+    return {
+      events: interaction.events.map(recorded => ({
+        ...recorded,
+        event: withResponseId(recorded.event, rename),
+      })),
+    };
+  }
+
+  return async () => {
+    loaded ??=
+      typeof fixture === 'string'
+        ? readFixture(fixture)
+        : Promise.resolve(fixture);
+    const { interactions } = await loaded;
+    return createReplaySocket(
+      message => find(interactions, message),
+      timing,
+    );
+  };
+}
+
+interface Replay {
+  events: RecordedEvent[];
+}
+
+function createReplaySocket(
+  find: (message: Record<string, unknown>) => Replay | undefined,
+  timing: 'original' | 'compressed',
+): WebSocketLike {
+  const listeners = new Map<string, Set<(event: unknown) => void>>();
+  let readyState: number = READY_STATE.CONNECTING;
+  // the response being replayed
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let responseId: string | undefined;
+
+  function emit(type: string, event: unknown) {
+    for (const listener of [...(listeners.get(type) ?? [])]) {
+      listener(event);
+    }
+  }
+
+  function receive(event: Record<string, unknown>) {
+    emit('message', { data: JSON.stringify(event) });
+  }
+
+  // like a real connection, never answer within `send`
+  function reply(event: Record<string, unknown>) {
+    setTimeout(() => {
+      if (readyState === READY_STATE.OPEN) receive(event);
+    }, 0);
+  }
+
+  function play(replay: Replay, index: number) {
+    const next = replay.events[index];
+    if (!next) {
+      timer = undefined;
+      responseId = undefined;
+      return;
+    }
+
+    timer = setTimeout(
+      () => {
+        responseId ??= responseIdOf(next.event);
+        receive(next.event);
+        play(replay, index + 1);
+      },
+      timing === 'original' ? next.delayMs : 0,
+    );
+  }
+
+  function stop() {
+    clearTimeout(timer);
+    timer = undefined;
+  }
+
+  setTimeout(() => {
+    if (readyState !== READY_STATE.CONNECTING) return;
+    readyState = READY_STATE.OPEN;
+    emit('open', {});
+  }, 0);
+
+  return {
+    get readyState() {
+      return readyState;
+    },
+
+    send(data) {
+      const message = JSON.parse(data);
+
+      if (message.type === 'response.cancel') {
+        if (timer === undefined) return;
+        stop();
+        reply({
+          type: 'response.cancelled',
+          response: { id: responseId, status: 'cancelled' },
+        });
+        responseId = undefined;
+        return;
+      }
+
+      if (message.type !== 'response.create') return;
+
+      const replay = find(message);
+      if (!replay) {
+        reply({
+          type: 'error',
+          error: {
+            type: 'invalid_request_error',
+            code: 'replay_not_found',
+            message: 'No recorded interaction matches the request',
+            param: null,
+          },
+        });
+        return;
+      }
+
+      play(replay, 0);
+    },
+
+    close(code = 1000, reason = '') {
+      if (readyState === READY_STATE.CLOSED) return;
+      stop();
+      readyState = READY_STATE.CLOSED;
+      setTimeout(() => emit('close', { code, reason }), 0);
+    },
+
+    addEventListener(type, listener) {
+      let set = listeners.get(type);
+      if (!set) listeners.set(type, (set = new Set()));
+      set.add(listener);
+    },
+
+    removeEventListener(type, listener) {
+      listeners.get(type)?.delete(listener);
+    },
+  };
+}
+
+function responseIdOf(event: Record<string, unknown>): string | undefined {
+  const id = valueAt(event, 'response', 'id') ?? event.response_id;
+  return typeof id === 'string' ? id : undefined;
+}
+
+function withResponseId(
+  event: Record<string, unknown>,
+  rename: (id: string) => string,
+): Record<string, unknown> {
+  if (isRecord(event.response) && typeof event.response.id === 'string') {
+    return {
+      ...event,
+      response: { ...event.response, id: rename(event.response.id) },
+    };
+  }
+  if (typeof event.response_id === 'string') {
+    return { ...event, response_id: rename(event.response_id) };
+  }
+  return event;
+}
+
+function isSameMessage(a: unknown, b: unknown): boolean {
+  return JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value === null || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map(key => [
+        key,
+        sortKeys((value as Record<string, unknown>)[key]),
+      ]),
+  );
+}
@@ -0,0 +1,151 @@
+import { gzipSync } from 'node:zlib';
+import { describe, expect, it, vi } from 'vitest';
+import { readRequest } from './request-body';
+import { useMockServer } from './test/mock-server';
+
+const url = 'https://api.openai.com/v1/responses';
+const body = { model: 'gpt-test', stream: true, input: 'Hello' };
+const json = { 'content-type': 'application/json' };
+
+const mock = useMockServer(undefined, { fallback: false });
+
+function streamOf(text: string): ReadableStream<Uint8Array> {
+  return new Blob([text]).stream();
+}
+
+describe('readRequest', () => {
+  it('reads a Request, with init overriding its properties', async () => {
+    const input = new Request(url, {
+      method: 'POST',
+      headers: { ...json, 'X-Custom': 'a' },
+      body: JSON.stringify(body),
+    });
+
+    const request = await readRequest(input, {
+      headers: { ...json, 'X-Custom': 'b' },
+    });
+
+    expect(request).toMatchObject({
+      url,
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-custom': 'b' },
+      body,
+    });
+    // left unread for the HTTP fallback
+    expect(input.bodyUsed).toBe(false);
+  });
+
+  it.each([
+    ['a Uint8Array', () => new TextEncoder().encode(JSON.stringify(body))],
+    ['a Blob', () => new Blob([JSON.stringify(body)])],
+  ])('reads %s', async (_, bodyInit) => {
+    const request = await readRequest(url, {
+      method: 'POST',
+      headers: json,
+      body: bodyInit(),
+    });
+    expect(request.body).toEqual(body);
+  });
+
+  it('replaces a stream that was read with its content', async () => {
+    const request = await readRequest(url, {
+      method: 'POST',
+      headers: json,
+      body: streamOf(JSON.stringify(body)),
+    });
+
+    expect(request.body).toEqual(body);
+    const replayed = new Response(request.init?.body);
+    expect(await replayed.json()).toEqual(body);
+  });
+
+  it('decompresses a gzip body', async () => {
+    const request = await readRequest(url, {
+      method: 'POST',
+      headers: { ...json, 'content-encoding': 'gzip' },
+      body: new Uint8Array(gzipSync(JSON.stringify(body))),
+    });
+    expect(request.body).toEqual(body);
+  });
+
+  it('leaves a body that is not compressed as declared', async () => {
+    const request = await readRequest(url, {
+      method: 'POST',
+      headers: { ...json, 'content-encoding': 'gzip' },
+      body: new TextEncoder().encode(JSON.stringify(body)),
+    });
+    expect(request.body).toBeUndefined();
+  });
+
+  it('does not read bodies of other content types', async () => {
+    const stream = streamOf(JSON.stringify(body));
+    const request = await readRequest(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/octet-stream' },
+      body: stream,
+    });
+
+    expect(request.body).toBeUndefined();
+    expect(stream.locked).toBe(false);
+  });
+
+  it('does not read the body when shouldReadBody rejects it', async () => {
+    const stream = streamOf(JSON.stringify(body));
+    const shouldReadBody = vi.fn(() => false);
+
+    const request = await readRequest(
+      'https://api.openai.com/v1/files',
+      { method: 'POST', headers: json, body: stream },
+      shouldReadBody,
+    );
+
+    expect(shouldReadBody).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: 'POST',
+        url: 'https://api.openai.com/v1/files',
+      }),
+    );
+    expect(request.body).toBeUndefined();
+    expect(request.init?.body).toBe(stream);
+    expect(stream.locked).toBe(false);
+  });
+});
+
+describe('request bodies', () => {
+  it('routes the body of a Request', async () => {
+    const wsFetch = mock.create();
+
+    const response = await wsFetch(
+      new Request(url, {
+        method: 'POST',
+        headers: { ...json, authorization: 'Bearer sk-test' },
+        body: JSON.stringify(body),
+      }),
+    );
+    await response.text();
+
+    expect(mock.server.messages).toEqual([
+      { type: 'response.create', model: 'gpt-test', input: 'Hello' },
+    ]);
+  });
+
+  it('passes a stream to another endpoint through unread', async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () =>
+      Response.json({}),
+    );
+    const wsFetch = mock.create({ fetch });
+    const stream = streamOf(JSON.stringify({ purpose: 'batch' }));
+
+    await wsFetch('https://api.openai.com/v1/files', {
+      method: 'POST',
+      headers: json,
+      body: stream,
+    });
+
+    expect(fetch).toHaveBeenCalledWith(
+      'https://api.openai.com/v1/files',
+      expect.objectContaining({ body: stream }),
+    );
+    expect(stream.locked).toBe(false);
+  });
+});
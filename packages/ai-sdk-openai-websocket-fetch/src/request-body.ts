@@ -0,0 +1,155 @@
+/** A fetch call with its body read, for routing over the WebSocket. */
+export interface ReadRequest {
+  url: string;
+  method: string;
+
+  /** Request headers, with lowercase names. */
+  headers: Record<string, string>;
+
+  signal: AbortSignal | undefined;
+
+  /** The parsed JSON body, or `undefined` if the body is not JSON. */
+  body: unknown;
+
+  /**
+   * The init to send the request over HTTP with. Replaces a body stream
+   * that was read with its content.
+   */
+  init: RequestInit | undefined;
+}
+
+// encodings of pre-compressed bodies and their DecompressionStream format
+const DECOMPRESSION_FORMATS: Record<string, string> = {
+  gzip: 'gzip',
+  'x-gzip': 'gzip',
+  deflate: 'deflate',
+};
+
+/**
+ * Reads the URL, method, headers and JSON body of a fetch call, as the
+ * request would be sent: `init` overrides the properties of a `Request`
+ * passed as `input`.
+ *
+ * Bodies may be strings, buffers, `Blob`s, `ReadableStream`s or the body
+ * of the `Request`, and may be compressed with `gzip` or `deflate`.
+ * Non-string bodies are only read if their content type is JSON, so
+ * that e.g. file uploads are passed through untouched. No body is read
+ * if `shouldReadBody` rejects the method and URL.
+ */
+export async function readRequest(
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  shouldReadBody: (request: {
+    method: string;
+    url: string;
+  }) => boolean = () => true,
+): Promise<ReadRequest> {
+  const request = input instanceof Request ? input : undefined;
+  const url =
+    input instanceof URL
+      ? input.toString()
+      : typeof input === 'string'
+        ? input
+        : input.url;
+
+  const headers = normalizeHeaders(init?.headers ?? request?.headers);
+  const result: ReadRequest = {
+    url,
+    method: init?.method ?? request?.method ?? 'GET',
+    headers,
+    signal: init?.signal ?? request?.signal,
+    body: undefined,
+    init,
+  };
+
+  const source = init?.body ?? request;
+  if (source == null || !shouldReadBody(result)) return result;
+
+  if (typeof source === 'string' && !headers['content-encoding']) {
+    result.body = parseJson(source);
+    return result;
+  }
+
+  const contentType = headers['content-type'] ?? '';
+  if (contentType && !/[/+]json\b/i.test(contentType)) return result;
+
+  let bytes: ArrayBuffer;
+  if (source instanceof Request) {
+    if (source.bodyUsed || source.body === null) return result;
+    // the original request stays unread for the HTTP fallback
+    bytes = await source.clone().arrayBuffer();
+  } else if (source instanceof ReadableStream) {
+    bytes = await new Response(source).arrayBuffer();
+    // the stream is consumed, so the HTTP fallback sends its content
+    result.init = { ...init, body: bytes };
+  } else if (
+    typeof source === 'string' ||
+    source instanceof Blob ||
+    source instanceof ArrayBuffer ||
+    ArrayBuffer.isView(source)
+  ) {
+    bytes = await new Response(source).arrayBuffer();
+  } else {
+    // FormData and URLSearchParams are never JSON
+    return result;
+  }
+
+  const text = await decodeBody(bytes, headers['content-encoding']);
+  if (text !== undefined) result.body = parseJson(text);
+  return result;
+}
+
+async function decodeBody(
+  bytes: ArrayBuffer,
+  contentEncoding: string | undefined,
+): Promise<string | undefined> {
+  if (!contentEncoding || contentEncoding === 'identity') {
+    return new TextDecoder().decode(bytes);
+  }
+
+  const format = DECOMPRESSION_FORMATS[contentEncoding.toLowerCase()];
+  if (!format || typeof DecompressionStream === 'undefined') {
+    return undefined;
+  }
+
+  try {
+    const stream = new Blob([bytes])
+      .stream()
+      .pipeThrough(new DecompressionStream(format as CompressionFormat));
+    return await new Response(stream).text();
+  } catch {
+    // not compressed as declared, the HTTP endpoint reports it
+    return undefined;
+  }
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+export function normalizeHeaders(
+  headers: HeadersInit | undefined,
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!headers) return result;
+
+  if (headers instanceof Headers) {
+    headers.forEach((v, k) => {
+      result[k.toLowerCase()] = v;
+    });
+  } else if (Array.isArray(headers)) {
+    for (const [k, v] of headers) {
+      result[k.toLowerCase()] = v;
+    }
+  } else {
+    for (const [k, v] of Object.entries(headers)) {
+      if (v != null) result[k.toLowerCase()] = v;
+    }
+  }
+
+  return result;
+}
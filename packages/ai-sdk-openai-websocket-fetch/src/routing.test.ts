@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TRANSPORT_HEADER } from './index';
+import {
+  type RoutableRequest,
+  isResponsesEndpoint,
+  isResponsesRequest,
+  toWebSocketUrl,
+} from './routing';
+import { post, useMockServer } from './test/mock-server';
+
+const mock = useMockServer(undefined, { fallback: false });
+
+function request(
+  url: string,
+  { method = 'POST', body = {} }: Partial<RoutableRequest> = {},
+): RoutableRequest {
+  return { url, method, headers: {}, body };
+}
+
+describe('toWebSocketUrl', () => {
+  it.each([
+    [
+      'https://api.openai.com/v1/responses',
+      'wss://api.openai.com/v1/responses',
+    ],
+    [
+      'http://localhost:8080/v1/responses',
+      'ws://localhost:8080/v1/responses',
+    ],
+    [
+      'https://example.openai.azure.com/openai/v1/responses?api-version=preview',
+      'wss://example.openai.azure.com/openai/v1/responses?api-version=preview',
+    ],
+    [
+      'https://proxy.example.com/v1/responses/',
+      'wss://proxy.example.com/v1/responses/',
+    ],
+    [
+      'wss://api.openai.com/v1/responses',
+      'wss://api.openai.com/v1/responses',
+    ],
+  ])('maps %s to %s', (httpUrl, webSocketUrl) => {
+    expect(toWebSocketUrl(httpUrl)).toBe(webSocketUrl);
+  });
+});
+
+describe('isResponsesRequest', () => {
+  it.each([
+    'https://api.openai.com/v1/responses',
+    'https://api.openai.com/v1/responses/',
+    'https://api.openai.com/v1/responses?api-version=preview',
+    'https://proxy.example.com/openai/v1/responses//',
+  ])('routes POST %s', url => {
+    expect(isResponsesRequest(request(url))).toBe(true);
+  });
+
+  it.each([
+    'https://api.openai.com/v1/responses/resp_1',
+    'https://api.openai.com/v1/responses/resp_1/cancel',
+    'https://api.openai.com/v1/chat/completions',
+    'https://api.openai.com/v1/files?purpose=responses',
+  ])('does not route POST %s', url => {
+    expect(isResponsesRequest(request(url))).toBe(false);
+  });
+
+  it('accepts the method in any case', () => {
+    const url = 'https://api.openai.com/v1/responses';
+    expect(isResponsesRequest(request(url, { method: 'post' }))).toBe(
+      true,
+    );
+    expect(isResponsesRequest(request(url, { method: 'GET' }))).toBe(
+      false,
+    );
+  });
+
+  it('does not route background responses', () => {
+    const url = 'https://api.openai.com/v1/responses';
+    expect(
+      isResponsesRequest(request(url, { body: { background: true } })),
+    ).toBe(false);
+    expect(
+      isResponsesRequest(request(url, { body: { background: false } })),
+    ).toBe(true);
+  });
+
+  it('matches isResponsesEndpoint before the body is known', () => {
+    const url = 'https://api.openai.com/v1/responses?x=1';
+    expect(isResponsesEndpoint({ method: 'POST', url })).toBe(true);
+    expect(isResponsesEndpoint({ method: 'DELETE', url })).toBe(false);
+  });
+});
+
+describe('routing', () => {
+  it('sends background responses over HTTP', async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>(async () =>
+      Response.json({ id: 'resp_1', status: 'queued' }),
+    );
+    const wsFetch = mock.create({ fetch });
+
+    const response = await post(wsFetch, { background: true });
+
+    expect(response.headers.get(TRANSPORT_HEADER)).toBeNull();
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(mock.server.handshakes).toHaveLength(0);
+  });
+
+  it('derives the WebSocket URL from the request URL', async () => {
+    const wsFetch = mock.create({ url: undefined });
+    const httpUrl = mock.server.url.replace(/^ws:/, 'http:');
+
+    const response = await wsFetch(`${httpUrl}?api-version=preview`, {
+      method: 'POST',
+      headers: { authorization: 'Bearer sk-test' },
+      body: JSON.stringify({ model: 'gpt-test', input: 'Hello' }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(mock.server.messages).toHaveLength(1);
+  });
+});
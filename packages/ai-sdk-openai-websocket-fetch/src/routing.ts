@@ -0,0 +1,62 @@
+/** A request that may be sent over a WebSocket. */
+export interface RoutableRequest {
+  /** The HTTP URL the request was made to. */
+  url: string;
+
+  method: string;
+
+  /** Request headers, with lowercase names. */
+  headers: Record<string, string>;
+
+  /** The parsed JSON body. */
+  body: Record<string, unknown>;
+}
+
+/**
+ * The default routing predicate: `POST` requests to a `/responses`
+ * endpoint, on any host and with any query string, except background
+ * responses, which outlive the request and are polled over HTTP.
+ */
+export function isResponsesRequest(request: RoutableRequest): boolean {
+  return isResponsesEndpoint(request) && !request.body.background;
+}
+
+/**
+ * Whether the method and URL of a request are those of the `/responses`
+ * endpoint, i.e. whether `isResponsesRequest` may accept it once its body
+ * is known.
+ */
+export function isResponsesEndpoint({
+  method,
+  url,
+}: Pick<RoutableRequest, 'method' | 'url'>): boolean {
+  return (
+    method.toUpperCase() === 'POST' &&
+    pathnameOf(url).endsWith('/responses')
+  );
+}
+
+/**
+ * Derives the WebSocket URL from the HTTP URL of a request by switching
+ * the scheme to `ws(s)`, so a custom `baseURL` of the provider, such as a
+ * regional endpoint, Azure OpenAI or a proxy, is used for the WebSocket
+ * as well.
+ *
+ * @example
+ * toWebSocketUrl('https://api.openai.com/v1/responses');
+ * // 'wss://api.openai.com/v1/responses'
+ */
+export function toWebSocketUrl(httpUrl: string): string {
+  const url = new URL(httpUrl);
+  if (url.protocol === 'https:') url.protocol = 'wss:';
+  else if (url.protocol === 'http:') url.protocol = 'ws:';
+  return url.toString();
+}
+
+function pathnameOf(url: string): string {
+  try {
+    return new URL(url).pathname.replace(/\/+$/, '');
+  } catch {
+    return url;
+  }
+}
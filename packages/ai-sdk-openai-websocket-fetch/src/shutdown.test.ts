@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, expect, it } from 'vitest';
+import WebSocket from 'ws';
+import { type WebSocketFetch, getSharedWebSocketFetch } from './index';
+import {
+  post,
+  responseEvents,
+  useMockServer,
+  waitFor,
+} from './test/mock-server';
+
+// `slow` responses complete after a while, others right away
+const mock = useMockServer((message, connection) => {
+  const [created, delta, completed] = responseEvents();
+  connection.send(created);
+  connection.send(delta);
+  setTimeout(
+    () => connection.send(completed),
+    message.model === 'slow' ? 100 : 0,
+  );
+});
+
+let store: Map<string, WebSocketFetch>;
+
+// without a listener of its own, the process would be terminated
+function keepAlive() {}
+
+beforeEach(() => {
+  store = new Map();
+  process.on('SIGTERM', keepAlive);
+});
+
+afterEach(() => {
+  for (const wsFetch of store.values()) wsFetch.close();
+  process.off('SIGTERM', keepAlive);
+});
+
+function shared() {
+  return getSharedWebSocketFetch({ url: mock.server.url, store });
+}
+
+it('removes a shared instance on beforeExit', async () => {
+  const wsFetch = shared();
+  await (await post(wsFetch)).text();
+
+  process.emit('beforeExit', 0);
+  expect(store.size).toBe(0);
+
+  const next = shared();
+  expect(next).not.toBe(wsFetch);
+  await (await post(next)).text();
+  expect(mock.server.connections).toHaveLength(2);
+});
+
+it('lets requests in progress finish on SIGTERM', async () => {
+  const wsFetch = shared();
+  await (
+    await post(wsFetch, {}, { headers: { authorization: 'Bearer a' } })
+  ).text();
+  const response = await post(
+    wsFetch,
+    { model: 'slow' },
+    { headers: { authorization: 'Bearer b' } },
+  );
+  const [idle, busy] = mock.server.connections;
+
+  process.emit('SIGTERM', 'SIGTERM');
+  expect(store.size).toBe(0);
+
+  await waitFor(() => idle.socket.readyState === WebSocket.CLOSED);
+  expect(busy.socket.readyState).toBe(WebSocket.OPEN);
+
+  const text = await response.text();
+  expect(text).toContain('response.completed');
+  await waitFor(() => busy.socket.readyState === WebSocket.CLOSED);
+});
@@ -0,0 +1,57 @@
+const closers = new Set<(graceful: boolean) => void>();
+let installed = false;
+
+/**
+ * Calls `close` when the process is about to exit, on `beforeExit` or
+ * `SIGTERM`. On `SIGTERM`, `graceful` is true: the application may still
+ * be finishing its requests. Does nothing in runtimes without process
+ * events, such as browsers and Edge runtimes. Returns a function that
+ * unregisters `close`.
+ */
+export function closeOnExit(
+  close: (graceful: boolean) => void,
+): () => void {
+  if (typeof process === 'undefined' || typeof process.on !== 'function') {
+    return () => {};
+  }
+
+  closers.add(close);
+  if (!installed) {
+    installed = true;
+    process.on('beforeExit', onBeforeExit);
+    process.on('SIGTERM', onSigterm);
+  }
+
+  return () => {
+    closers.delete(close);
+  };
+}
+
+function closeAll(graceful: boolean) {
+  process.off('beforeExit', onBeforeExit);
+  process.off('SIGTERM', onSigterm);
+  installed = false;
+
+  for (const close of [...closers]) {
+    closers.delete(close);
+    try {
+      close(graceful);
+    } catch {
+      // keep closing the others
+    }
+  }
+}
+
+function onBeforeExit() {
+  closeAll(false);
+}
+
+function onSigterm() {
+  closeAll(true);
+
+  // listening for SIGTERM disables the default exit, so unless the
+  // application handles the signal itself, re-raise it to terminate
+  if (process.listenerCount('SIGTERM') === 0) {
+    process.kill(process.pid, 'SIGTERM');
+  }
+}
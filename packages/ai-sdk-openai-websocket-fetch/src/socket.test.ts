@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+import { WebSocketFrameError } from './index';
+import {
+  type WebSocketFactoryInit,
+  type WebSocketLike,
+  createTransportSocket,
+} from './socket';
+import { post, responseEvents, useMockServer } from './test/mock-server';
+
+const maxPayload = 1024;
+
+// the model of a request selects the frames it is answered with
+const mock = useMockServer(
+  (message, connection) => {
+    const events = responseEvents();
+    switch (message.model) {
+      case 'binary':
+        for (const event of events) {
+          connection.socket.send(Buffer.from(JSON.stringify(event)), {
+            binary: true,
+          });
+        }
+        return;
+      case 'invalid-utf8':
+        connection.socket.send(Buffer.from([0x7b, 0xff, 0xfe, 0x7d]), {
+          binary: true,
+        });
+        return;
+      case 'large':
+        connection.send({ ...events[1], delta: 'x'.repeat(maxPayload) });
+        return;
+      case 'not-json':
+        connection.socket.send('not json');
+        return;
+      default:
+        for (const event of events) connection.send(event);
+    }
+  },
+  { fallback: false, maxPayload },
+);
+
+describe('frames', () => {
+  it('reads JSON events sent as binary frames', async () => {
+    const wsFetch = mock.create();
+
+    const text = await (await post(wsFetch, { model: 'binary' })).text();
+    expect(text).toContain('event: response.completed');
+  });
+
+  it.each([
+    ['binary data that is not UTF-8', 'invalid-utf8', /not valid UTF-8/],
+    ['a message larger than maxPayload', 'large', /maxPayload/],
+    ['a message that is not JSON', 'not-json', /not a JSON event/],
+  ])('fails the request on %s', async (_, model, message) => {
+    const wsFetch = mock.create();
+
+    const error = await post(wsFetch, { model }).catch(error => error);
+    expect(error).toBeInstanceOf(WebSocketFrameError);
+    expect(error.message).toMatch(message);
+    // not replayed, the same frame would arrive again
+    expect(mock.server.messages).toHaveLength(1);
+
+    // the connection cannot be trusted and is not reused
+    await (await post(wsFetch)).text();
+    expect(mock.server.connections).toHaveLength(2);
+  });
+});
+
+describe('standard WebSocket', () => {
+  const init: WebSocketFactoryInit = {
+    headers: {},
+    maxPayload: 8,
+    perMessageDeflate: false,
+  };
+
+  // an open WebSocket whose messages are dispatched by the test
+  async function open() {
+    const target = new EventTarget();
+    const webSocket = Object.assign(target, {
+      readyState: 1,
+      binaryType: 'blob',
+      send: vi.fn(),
+      close: vi.fn(),
+    });
+    const socket = createTransportSocket(
+      () => webSocket as unknown as WebSocketLike,
+      'wss://example.com',
+      init,
+    );
+    const messages: string[] = [];
+    const errors: unknown[] = [];
+    socket.on('message', data => messages.push(data));
+    socket.on('error', error => errors.push(error));
+    await new Promise(resolve => setTimeout(resolve));
+
+    return {
+      webSocket,
+      messages,
+      errors,
+      receive: (data: unknown) =>
+        target.dispatchEvent(new MessageEvent('message', { data })),
+    };
+  }
+
+  it('asks for binary frames as ArrayBuffers and decodes them', async () => {
+    const { webSocket, messages, receive } = await open();
+    expect(webSocket.binaryType).toBe('arraybuffer');
+
+    receive('{}');
+    receive(new TextEncoder().encode('{"a":1}').buffer);
+    expect(messages).toEqual(['{}', '{"a":1}']);
+  });
+
+  it.each([
+    ['larger than maxPayload', '"123456789"', /maxPayload/],
+    ['not valid UTF-8', new Uint8Array([0xff]).buffer, /UTF-8/],
+    ['a Blob', new Blob(['{}']), /not an ArrayBuffer/],
+  ])('closes the connection on a message %s', async (_, data, message) => {
+    const { webSocket, messages, errors, receive } = await open();
+
+    receive(data);
+
+    expect(messages).toEqual([]);
+    expect(errors).toEqual([expect.any(WebSocketFrameError)]);
+    expect((errors[0] as Error).message).toMatch(message);
+    expect(webSocket.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,445 @@
+import type NodeWebSocket from 'ws';
+import { WebSocketFrameError, WebSocketHandshakeError } from './errors';
+
+export const READY_STATE = {
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3,
+} as const;
+
+/**
+ * The subset of the standard `WebSocket` interface the transport needs.
+ * The global `WebSocket` of browsers, Edge runtimes, Deno and Bun, and the
+ * `WebSocket` class of the `ws` package all satisfy it.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  binaryType?: string;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: string, listener: (event: unknown) => void): void;
+  removeEventListener(
+    type: string,
+    listener: (event: unknown) => void,
+  ): void;
+}
+
+export interface WebSocketFactoryInit {
+  /**
+   * Handshake headers, with lowercase names: `authorization`,
+   * `openai-beta` and the other headers selected by `handshakeHeaders`,
+   * such as `openai-organization` and `openai-project`.
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Maximum size of a message in bytes. Larger messages close the
+   * connection with a `WebSocketFrameError`.
+   */
+  maxPayload: number;
+
+  /**
+   * Whether to negotiate permessage-deflate compression. Only applies to
+   * implementations that let the client choose, such as `ws`; browsers
+   * negotiate it on their own.
+   */
+  perMessageDeflate: boolean;
+}
+
+/**
+ * Creates the WebSocket for a new connection. May return a socket that is
+ * still connecting or already open, or a promise for one.
+ */
+export type WebSocketFactory = (
+  url: string,
+  init: WebSocketFactoryInit,
+) => WebSocketLike | Promise<WebSocketLike>;
+
+interface TransportEvents {
+  open: () => void;
+  message: (data: string) => void;
+  close: (code: number, reason: string) => void;
+  error: (error: unknown) => void;
+  pong: () => void;
+}
+
+/**
+ * A connection's socket with a uniform event API, whatever the underlying
+ * WebSocket implementation. Transport-specific features are optional:
+ * `ping` is only available on `ws` sockets.
+ */
+export interface TransportSocket {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+
+  /** Closes the connection immediately, without a closing handshake. */
+  terminate(): void;
+
+  /** Sends a ping frame. Undefined if the implementation cannot ping. */
+  readonly ping: (() => void) | undefined;
+
+  /**
+   * Stops reading messages until `resume` is called, so that the server's
+   * writes are held back by TCP flow control. Undefined if the
+   * implementation cannot pause.
+   */
+  readonly pause: (() => void) | undefined;
+  readonly resume: (() => void) | undefined;
+  readonly isPaused: boolean;
+
+  /**
+   * Lets the open connection keep the process alive (`ref`), or not
+   * (`unref`), like the methods of Node.js timers. Undefined if the
+   * implementation does not expose its network socket.
+   */
+  readonly ref: (() => void) | undefined;
+  readonly unref: (() => void) | undefined;
+
+  on<E extends keyof TransportEvents>(
+    event: E,
+    listener: TransportEvents[E],
+  ): void;
+  once<E extends keyof TransportEvents>(
+    event: E,
+    listener: TransportEvents[E],
+  ): void;
+  off<E extends keyof TransportEvents>(
+    event: E,
+    listener: TransportEvents[E],
+  ): void;
+}
+
+// a `once` wrapper keeps the listener it wraps
+type Listener = ((...args: unknown[]) => void) & { listener?: unknown };
+
+/**
+ * Creates a connection's socket with `factory`. The returned socket is
+ * usable right away, even if the factory is asynchronous.
+ */
+export function createTransportSocket(
+  factory: WebSocketFactory,
+  url: string,
+  init: WebSocketFactoryInit,
+): TransportSocket {
+  const listeners = new Map<string, Set<Listener>>();
+
+  function addListener(event: string, listener: Listener) {
+    let set = listeners.get(event);
+    if (!set) listeners.set(event, (set = new Set()));
+    set.add(listener);
+  }
+
+  function emit<E extends keyof TransportEvents>(
+    event: E,
+    ...args: Parameters<TransportEvents[E]>
+  ) {
+    for (const listener of [...(listeners.get(event) ?? [])]) {
+      listener(...args);
+    }
+  }
+
+  let inner: WebSocketLike | undefined;
+  let closeRequested = false;
+  let paused = false;
+  let closed = false;
+  const decoder = new TextDecoder();
+
+  function emitClose(code: number, reason: string) {
+    if (closed) return;
+    closed = true;
+    emit('close', code, reason);
+  }
+
+  function attach(socket: WebSocketLike) {
+    inner = socket;
+
+    if (isNodeWebSocket(socket)) {
+      attachNode(socket);
+    } else {
+      attachStandard(socket);
+    }
+
+    if (closeRequested) {
+      socket.close();
+    } else if (socket.readyState === READY_STATE.OPEN) {
+      // e.g. a socket accepted from a fetch upgrade
+      queueMicrotask(() => emit('open'));
+    }
+  }
+
+  function attachNode(socket: NodeWebSocket) {
+    socket.on('open', () => emit('open'));
+    socket.on('message', (data, isBinary) => {
+      if (isBinary) {
+        receive(Array.isArray(data) ? data : [data]);
+      } else {
+        // ws has validated the UTF-8 of text messages
+        emit(
+          'message',
+          (Array.isArray(data) ? Buffer.concat(data) : data).toString(),
+        );
+      }
+    });
+    socket.on('error', error =>
+      emit('error', toFrameError(error, init.maxPayload)),
+    );
+    socket.on('pong', () => emit('pong'));
+    socket.on('close', (code, reason) =>
+      emitClose(code, reason.toString()),
+    );
+
+    // an HTTP error instead of an upgrade carries the API error body
+    socket.once('unexpected-response', (_req, res) => {
+      const chunks: Uint8Array[] = [];
+      res.on('data', (chunk: Uint8Array) => chunks.push(chunk));
+      res.on('end', () => {
+        const headers: Record<string, string> = {};
+        for (const [key, value] of Object.entries(res.headers)) {
+          if (value != null) {
+            headers[key] = Array.isArray(value) ? value.join(', ') : value;
+          }
+        }
+
+        emit(
+          'error',
+          new WebSocketHandshakeError({
+            status: res.statusCode ?? 500,
+            headers,
+            body: chunks.map(chunk => decoder.decode(chunk)).join(''),
+          }),
+        );
+        socket.terminate();
+      });
+    });
+  }
+
+  // decodes and emits a binary message, or closes the connection if it
+  // cannot be read
+  function receive(chunks: Array<ArrayBuffer | Uint8Array>) {
+    const size = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+    if (size > init.maxPayload) {
+      protocolError(
+        new WebSocketFrameError(
+          `Received a message of ${size} bytes, ` +
+            `more than maxPayload (${init.maxPayload} bytes)`,
+        ),
+      );
+      return;
+    }
+
+    // fragments may split a multi-byte character, so decode them as one
+    // stream
+    const fatalDecoder = new TextDecoder('utf-8', { fatal: true });
+    let text = '';
+    try {
+      chunks.forEach((chunk, index) => {
+        text += fatalDecoder.decode(chunk, {
+          stream: index < chunks.length - 1,
+        });
+      });
+    } catch (error) {
+      protocolError(
+        new WebSocketFrameError(
+          'Received a binary message that is not valid UTF-8',
+          { cause: error },
+        ),
+      );
+      return;
+    }
+
+    emit('message', text);
+  }
+
+  function protocolError(error: WebSocketFrameError) {
+    emit('error', error);
+    closeRequested = true;
+    inner?.close();
+  }
+
+  function attachStandard(socket: WebSocketLike) {
+    socket.binaryType = 'arraybuffer';
+    socket.addEventListener('open', () => emit('open'));
+    socket.addEventListener('message', event => {
+      const { data } = event as MessageEvent<unknown>;
+      if (typeof data === 'string') {
+        // a lower bound of the size in bytes, without encoding it
+        if (data.length > init.maxPayload) {
+          protocolError(
+            new WebSocketFrameError(
+              `Received a message larger than maxPayload ` +
+                `(${init.maxPayload} bytes)`,
+            ),
+          );
+          return;
+        }
+        emit('message', data);
+      } else if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+        receive([
+          data instanceof ArrayBuffer
+            ? data
+            : new Uint8Array(
+                data.buffer,
+                data.byteOffset,
+                data.byteLength,
+              ),
+        ]);
+      } else {
+        // the implementation ignored binaryType and delivered a Blob
+        protocolError(
+          new WebSocketFrameError(
+            'Received a binary message that is not an ArrayBuffer',
+          ),
+        );
+      }
+    });
+    // error events carry no error in browsers
+    socket.addEventListener('error', event => {
+      emit(
+        'error',
+        (event as Partial<ErrorEvent>)?.error ??
+          new Error('WebSocket error'),
+      );
+    });
+    socket.addEventListener('close', event => {
+      const { code, reason } = (event ?? {}) as Partial<CloseEvent>;
+      emitClose(code ?? 1006, reason ?? '');
+    });
+  }
+
+  Promise.resolve()
+    .then(() => factory(url, init))
+    .then(attach, error => {
+      emit('error', error);
+      emitClose(1006, '');
+    });
+
+  return {
+    get readyState() {
+      if (closed) return READY_STATE.CLOSED;
+      return inner?.readyState ?? READY_STATE.CONNECTING;
+    },
+
+    send(data) {
+      inner?.send(data);
+    },
+
+    close() {
+      closeRequested = true;
+      inner?.close();
+    },
+
+    terminate() {
+      closeRequested = true;
+      if (inner && isNodeWebSocket(inner)) {
+        inner.terminate();
+      } else {
+        inner?.close();
+      }
+    },
+
+    get ping() {
+      return inner && isNodeWebSocket(inner)
+        ? () => (inner as NodeWebSocket).ping()
+        : undefined;
+    },
+
+    get pause() {
+      return inner && isNodeWebSocket(inner)
+        ? () => {
+            paused = true;
+            (inner as NodeWebSocket).pause();
+          }
+        : undefined;
+    },
+
+    get resume() {
+      return inner && isNodeWebSocket(inner)
+        ? () => {
+            paused = false;
+            (inner as NodeWebSocket).resume();
+          }
+        : undefined;
+    },
+
+    get isPaused() {
+      return paused;
+    },
+
+    get ref() {
+      const socket = inner && networkSocketOf(inner);
+      return socket ? () => socket.ref() : undefined;
+    },
+
+    get unref() {
+      const socket = inner && networkSocketOf(inner);
+      return socket ? () => socket.unref() : undefined;
+    },
+
+    on(event, listener) {
+      addListener(event, listener as Listener);
+    },
+
+    once(event, listener) {
+      const wrapper: Listener = (...args) => {
+        listeners.get(event)?.delete(wrapper);
+        (listener as Listener)(...args);
+      };
+      // found by `off` with the original listener
+      wrapper.listener = listener;
+      addListener(event, wrapper);
+    },
+
+    off(event, listener) {
+      const set = listeners.get(event);
+      for (const entry of set ?? []) {
+        if (entry === listener || entry.listener === listener) {
+          set!.delete(entry);
+        }
+      }
+    },
+  };
+}
+
+function isNodeWebSocket(
+  socket: WebSocketLike,
+): socket is WebSocketLike & NodeWebSocket {
+  const candidate = socket as Partial<NodeWebSocket>;
+  return (
+    typeof candidate.on === 'function' &&
+    typeof candidate.ping === 'function' &&
+    typeof candidate.terminate === 'function'
+  );
+}
+
+// the TCP socket of an open `ws` connection, which ws keeps private
+function networkSocketOf(
+  socket: WebSocketLike,
+): { ref(): void; unref(): void } | undefined {
+  if (!isNodeWebSocket(socket)) return undefined;
+  const { _socket } = socket as unknown as {
+    _socket?: { ref(): void; unref(): void } | null;
+  };
+  return _socket ?? undefined;
+}
+
+// ws reports invalid frames, such as messages larger than `maxPayload`,
+// with errors coded `WS_ERR_*` and closes the connection
+function toFrameError(
+  error: Error & { code?: string },
+  maxPayload: number,
+): unknown {
+  if (
+    typeof error.code !== 'string' ||
+    !error.code.startsWith('WS_ERR_')
+  ) {
+    return error;
+  }
+  return new WebSocketFrameError(
+    error.code === 'WS_ERR_UNSUPPORTED_MESSAGE_LENGTH'
+      ? `Received a message larger than maxPayload (${maxPayload} bytes)`
+      : `Received an invalid frame: ${error.message}`,
+    { cause: error },
+  );
+}
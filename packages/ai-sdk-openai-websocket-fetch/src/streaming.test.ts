@@ -0,0 +1,73 @@
+import { expect, it, vi } from 'vitest';
+import type WebSocket from 'ws';
+import { createNodeWebSocketFactory } from './index';
+import {
+  post,
+  readEvents,
+  responseEvents,
+  useMockServer,
+  waitFor,
+} from './test/mock-server';
+
+const DELTAS = 100;
+
+// `large` responses stream many times the buffer of a slow consumer
+const mock = useMockServer(
+  (message, connection) => {
+    const [created, delta, completed] = responseEvents();
+    connection.send(created);
+    if (message.model === 'large') {
+      for (let i = 0; i < DELTAS; i++) {
+        connection.send({ ...delta, delta: 'x'.repeat(4096) });
+      }
+    } else {
+      connection.send(delta);
+    }
+    connection.send(completed);
+  },
+  { fallback: false },
+);
+
+it('streams events the way the HTTP endpoint does', async () => {
+  const wsFetch = mock.create();
+
+  const text = await (await post(wsFetch)).text();
+  const blocks = text.split('\n\n').filter(Boolean);
+
+  expect(blocks.map(block => block.split('\n')[0])).toEqual([
+    'event: response.created',
+    'event: response.output_text.delta',
+    'event: response.completed',
+  ]);
+  expect(blocks[1].split('\n')[1]).toMatch(
+    /^data: \{"type":"response.output_text.delta",/,
+  );
+});
+
+it('pauses the socket while the consumer does not read', async () => {
+  const sockets: WebSocket[] = [];
+  const factory = createNodeWebSocketFactory();
+  const wsFetch = mock.create({
+    createWebSocket: async (url, init) => {
+      const socket = (await factory(url, init)) as WebSocket;
+      vi.spyOn(socket, 'pause');
+      vi.spyOn(socket, 'resume');
+      sockets.push(socket);
+      return socket;
+    },
+  });
+
+  const response = await post(wsFetch, { model: 'large' });
+  const [socket] = sockets;
+  await waitFor(() => vi.mocked(socket.pause).mock.calls.length > 0);
+  expect(socket.resume).not.toHaveBeenCalled();
+
+  const events = await readEvents(response);
+  expect(socket.resume).toHaveBeenCalled();
+  expect(events).toHaveLength(DELTAS + 2);
+  expect(events.at(-1)?.type).toBe('response.completed');
+
+  // the connection reads again for the next request
+  await (await post(wsFetch)).text();
+  expect(mock.server.connections).toHaveLength(1);
+});
@@ -0,0 +1,75 @@
+import type { Span, Tracer } from '@opentelemetry/api';
+import { expect, it } from 'vitest';
+import { post, useMockServer } from './test/mock-server';
+
+const mock = useMockServer(undefined, { fallback: false });
+
+// records the names and attributes of the spans it creates
+function createTracer() {
+  const spans: { name: string; attributes: Record<string, unknown> }[] =
+    [];
+  const tracer = {
+    startSpan(
+      name: string,
+      options?: { attributes?: Record<string, unknown> },
+    ) {
+      const recorded = { name, attributes: { ...options?.attributes } };
+      spans.push(recorded);
+      const span = {
+        spanContext: () => ({
+          traceId: '0'.repeat(32),
+          spanId: String(spans.length).padStart(16, '0'),
+          traceFlags: 1,
+        }),
+        setAttribute(key: string, value: unknown) {
+          recorded.attributes[key] = value;
+          return span;
+        },
+        setAttributes(attributes: object) {
+          Object.assign(recorded.attributes, attributes);
+          return span;
+        },
+        setStatus: () => span,
+        recordException() {},
+        end() {},
+      };
+      return span as unknown as Span;
+    },
+  };
+  return { spans, tracer: tracer as unknown as Tracer };
+}
+
+it('records the spans of a request', async () => {
+  const { spans, tracer } = createTracer();
+  const wsFetch = mock.create({
+    telemetry: { isEnabled: true, tracer },
+  });
+
+  await (await post(wsFetch)).text();
+
+  expect(spans.map(span => span.name)).toEqual([
+    'ai.websocket.request',
+    'ai.websocket.acquire',
+    'ai.websocket.connect',
+    'ai.websocket.send',
+    'ai.websocket.first-frame',
+    'ai.websocket.complete',
+  ]);
+  expect(spans[0].attributes).toMatchObject({
+    'gen_ai.request.model': 'gpt-test',
+    'gen_ai.usage.input_tokens': 3,
+    'gen_ai.usage.output_tokens': 1,
+    'ai.websocket.connection.reused': false,
+    'ai.websocket.outcome': 'completed',
+  });
+});
+
+it('does not trace unless enabled', async () => {
+  const { spans, tracer } = createTracer();
+  const wsFetch = mock.create({
+    telemetry: { tracer },
+  });
+
+  await (await post(wsFetch)).text();
+  expect(spans).toEqual([]);
+});
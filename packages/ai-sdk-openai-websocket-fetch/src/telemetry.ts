@@ -0,0 +1,195 @@
+import type {
+  Attributes,
+  Context,
+  Span,
+  Tracer,
+} from '@opentelemetry/api';
+import type { ConnectionLease } from './connection-pool';
+import { isRecord, valueAt } from './events';
+import type { RequestOutcome } from './hooks';
+
+export interface TelemetryOptions {
+  /**
+   * Enable OpenTelemetry tracing of WebSocket-routed requests. Requires
+   * the `@opentelemetry/api` package, which is loaded on first use.
+   * @default false
+   */
+  isEnabled?: boolean;
+
+  /**
+   * Tracer to create spans with.
+   * @default the tracer of the globally registered tracer provider
+   */
+  tracer?: Tracer;
+}
+
+/**
+ * Records the spans of a single request:
+ *
+ * - `ai.websocket.request` covers the whole request and is a child of the
+ *   span that is active when `fetch` is called, e.g. the AI SDK's
+ *   `ai.streamText.doStream` span.
+ * - `ai.websocket.acquire` covers getting a connection, including
+ *   queueing, with a nested `ai.websocket.connect` span for the handshake
+ *   when a new connection is opened.
+ * - `ai.websocket.send` marks sending `response.create`.
+ * - `ai.websocket.first-frame` covers the wait for the first event.
+ * - `ai.websocket.complete` covers streaming from the first event to the
+ *   end of the response.
+ */
+export interface RequestTrace {
+  acquired(lease: ConnectionLease, startTime: number): void;
+  sent(): void;
+  frame(event: Record<string, unknown> | undefined): void;
+  end(outcome: RequestOutcome, error?: unknown): void;
+}
+
+const noopTrace: RequestTrace = {
+  acquired() {},
+  sent() {},
+  frame() {},
+  end() {},
+};
+
+export async function startRequestTrace(
+  options: TelemetryOptions | undefined,
+  attributes: { requestId: number; model: string | undefined },
+): Promise<RequestTrace> {
+  if (!options?.isEnabled) return noopTrace;
+
+  const { SpanStatusCode, context, trace } =
+    await import('@opentelemetry/api');
+
+  const tracer =
+    options.tracer ?? trace.getTracer('ai-sdk-openai-websocket-fetch');
+
+  const requestSpan = tracer.startSpan(
+    'ai.websocket.request',
+    {
+      attributes: compact({
+        'ai.websocket.request.id': attributes.requestId,
+        'gen_ai.system': 'openai',
+        'gen_ai.request.model': attributes.model,
+      }),
+    },
+    context.active(),
+  );
+  const requestContext = trace.setSpan(context.active(), requestSpan);
+
+  let firstFrameSpan: Span | undefined;
+  let completeSpan: Span | undefined;
+
+  function child(
+    name: string,
+    startTime?: number,
+    parent: Context = requestContext,
+  ): Span {
+    return tracer.startSpan(name, { startTime }, parent);
+  }
+
+  return {
+    acquired(lease, startTime) {
+      requestSpan.setAttributes({
+        'ai.websocket.connection.id': lease.connectionId,
+        'ai.websocket.connection.reused': lease.reused,
+      });
+
+      const acquireSpan = child('ai.websocket.acquire', startTime);
+      acquireSpan.setAttribute(
+        'ai.websocket.connection.reused',
+        lease.reused,
+      );
+
+      if (lease.handshake) {
+        child(
+          'ai.websocket.connect',
+          lease.handshake.startTime,
+          trace.setSpan(requestContext, acquireSpan),
+        ).end(lease.handshake.endTime);
+      }
+
+      acquireSpan.end();
+    },
+
+    sent() {
+      child('ai.websocket.send').end();
+      firstFrameSpan ??= child('ai.websocket.first-frame');
+    },
+
+    frame(event) {
+      if (firstFrameSpan && !completeSpan) {
+        firstFrameSpan.end();
+        completeSpan = child('ai.websocket.complete');
+      }
+
+      const response = event?.response;
+      if (!isRecord(response)) return;
+
+      const usage = response.usage;
+      requestSpan.setAttributes(
+        compact({
+          'gen_ai.response.id': response.id,
+          'gen_ai.response.model': response.model,
+          'gen_ai.usage.input_tokens': valueAt(usage, 'input_tokens'),
+          'gen_ai.usage.output_tokens': valueAt(usage, 'output_tokens'),
+          'gen_ai.usage.cached_input_tokens': valueAt(
+            usage,
+            'input_tokens_details',
+            'cached_tokens',
+          ),
+          'gen_ai.usage.reasoning_tokens': valueAt(
+            usage,
+            'output_tokens_details',
+            'reasoning_tokens',
+          ),
+        }),
+      );
+    },
+
+    end(outcome, error) {
+      requestSpan.setAttributes({
+        'ai.websocket.outcome': outcome,
+        'ai.websocket.transport':
+          outcome === 'fallback' ? 'http' : 'websocket',
+      });
+
+      if (error !== undefined) {
+        requestSpan.recordException(
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+      if (
+        outcome === 'failed' ||
+        outcome === 'error' ||
+        outcome === 'timeout' ||
+        outcome === 'aborted'
+      ) {
+        requestSpan.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: error instanceof Error ? error.message : outcome,
+        });
+      }
+
+      if (completeSpan) {
+        completeSpan.end();
+      } else {
+        firstFrameSpan?.end();
+      }
+      requestSpan.end();
+    },
+  };
+}
+
+function compact(attributes: Record<string, unknown>): Attributes {
+  const result: Attributes = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+    ) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,298 @@
+import { type IncomingMessage, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, beforeEach } from 'vitest';
+import { type WebSocket, WebSocketServer } from 'ws';
+import {
+  type CreateWebSocketFetchOptions,
+  type WebSocketFetch,
+  createWebSocketFetch,
+} from '../index';
+
+/** A connection accepted by the mock server. */
+export interface MockConnection {
+  id: number;
+
+  /** Handshake headers, with lowercase names. */
+  headers: IncomingMessage['headers'];
+
+  /** The messages received on this connection, parsed. */
+  messages: Record<string, any>[];
+
+  socket: WebSocket;
+  send(event: Record<string, unknown>): void;
+}
+
+export type MockHandler = (
+  message: Record<string, any>,
+  connection: MockConnection,
+) => void;
+
+export interface MockServer {
+  /** `ws:` URL of the server, for the `url` option. */
+  url: string;
+
+  connections: MockConnection[];
+
+  /** The messages received on all connections, in order. */
+  messages: Record<string, any>[];
+
+  /** Replaces the handler of received messages. */
+  handle(handler: MockHandler): void;
+
+  /**
+   * Rejects the next `count` handshakes with `status`, `body` and extra
+   * response `headers`.
+   */
+  rejectHandshakes(
+    count: number,
+    status?: number,
+    body?: string,
+    headers?: Record<string, string>,
+  ): void;
+
+  /** The headers of all handshakes, including rejected ones. */
+  handshakes: IncomingMessage['headers'][];
+
+  close(): Promise<void>;
+}
+
+/**
+ * Starts a local WebSocket server that speaks the Responses API protocol
+ * as scripted by the tests. By default each `response.create` gets a
+ * short completed response.
+ */
+export async function createMockServer(
+  handler: MockHandler = respond,
+): Promise<MockServer> {
+  const server = createServer((_, res) => res.writeHead(404).end());
+  const wss = new WebSocketServer({ noServer: true });
+  const connections: MockConnection[] = [];
+  const messages: Record<string, any>[] = [];
+  let current = handler;
+  const handshakes: IncomingMessage['headers'][] = [];
+  let rejections:
+    | {
+        count: number;
+        status: number;
+        body: string;
+        headers: Record<string, string>;
+      }
+    | undefined;
+
+  server.on('upgrade', (req, socket, head) => {
+    handshakes.push(req.headers);
+    if (rejections && rejections.count > 0) {
+      rejections.count--;
+      socket.end(
+        `HTTP/1.1 ${rejections.status} Rejected\r\n` +
+          'content-type: application/json\r\nconnection: close\r\n' +
+          Object.entries(rejections.headers)
+            .map(([name, value]) => `${name}: ${value}\r\n`)
+            .join('') +
+          '\r\n' +
+          rejections.body,
+      );
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, ws => {
+      const connection: MockConnection = {
+        id: connections.length + 1,
+        headers: req.headers,
+        messages: [],
+        socket: ws,
+        send(event) {
+          if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(event));
+        },
+      };
+      connections.push(connection);
+      ws.on('message', data => {
+        const message = JSON.parse(data.toString());
+        connection.messages.push(message);
+        messages.push(message);
+        current(message, connection);
+      });
+    });
+  });
+
+  await new Promise<void>(resolve =>
+    server.listen(0, '127.0.0.1', resolve),
+  );
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `ws://127.0.0.1:${port}/v1/responses`,
+    connections,
+    messages,
+    handle(next) {
+      current = next;
+    },
+    rejectHandshakes(
+      count,
+      status = 503,
+      body = JSON.stringify({
+        error: { message: 'Rejected', code: null },
+      }),
+      headers = {},
+    ) {
+      rejections = { count, status, body, headers };
+    },
+    handshakes,
+    async close() {
+      for (const client of wss.clients) client.terminate();
+      wss.close();
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    },
+  };
+}
+
+export interface MockServerContext {
+  /** The server of the current test. */
+  readonly server: MockServer;
+
+  /** The fetch function last created by `create` in the current test. */
+  readonly wsFetch: WebSocketFetch;
+
+  /**
+   * Creates a fetch function connecting to the server, with `options`
+   * on top of the defaults of `useMockServer`.
+   */
+  create(options?: CreateWebSocketFetchOptions): WebSocketFetch;
+}
+
+/**
+ * Starts a mock server with `handler` before each test of the file, and
+ * closes it and the fetch functions created with `create` after each.
+ */
+export function useMockServer(
+  handler?: MockHandler,
+  defaults?: CreateWebSocketFetchOptions,
+): MockServerContext {
+  let server: MockServer | undefined;
+  let created: WebSocketFetch[] = [];
+
+  beforeEach(async () => {
+    server = await createMockServer(handler);
+  });
+
+  afterEach(async () => {
+    for (const wsFetch of created) wsFetch.close();
+    created = [];
+    await server?.close();
+  });
+
+  return {
+    get server() {
+      if (!server) throw new Error('The mock server runs in tests only');
+      return server;
+    },
+    get wsFetch() {
+      const wsFetch = created.at(-1);
+      if (!wsFetch) throw new Error('No fetch function was created');
+      return wsFetch;
+    },
+    create(options) {
+      const wsFetch = createWebSocketFetch({
+        url: this.server.url,
+        ...defaults,
+        ...options,
+      });
+      created.push(wsFetch);
+      return wsFetch;
+    },
+  };
+}
+
+let nextResponseId = 1;
+
+/** The events of a short response that ends with `terminal`. */
+export function responseEvents(
+  terminal = 'response.completed',
+  id = `resp_${nextResponseId++}`,
+): Record<string, any>[] {
+  const status = terminal.slice('response.'.length);
+  return [
+    { type: 'response.created', response: { id, status: 'in_progress' } },
+    { type: 'response.output_text.delta', response_id: id, delta: 'Hi' },
+    {
+      type: terminal,
+      response: {
+        id,
+        status,
+        output: [
+          {
+            id: `msg_${id}`,
+            type: 'message',
+            role: 'assistant',
+            content: [{ type: 'output_text', text: 'Hi' }],
+          },
+        ],
+        usage: { input_tokens: 3, output_tokens: 1, total_tokens: 4 },
+      },
+    },
+  ];
+}
+
+/** Answers `response.create` messages with a completed response. */
+export function respond(
+  message: Record<string, any>,
+  connection: MockConnection,
+): void {
+  if (message.type !== 'response.create') return;
+  for (const event of responseEvents()) connection.send(event);
+}
+
+/** Sends a streaming Responses API request through `wsFetch`. */
+export function post(
+  wsFetch: (input: string, init?: RequestInit) => Promise<Response>,
+  body: Record<string, unknown> = {},
+  init?: RequestInit & { headers?: Record<string, string> },
+): Promise<Response> {
+  return wsFetch('https://api.openai.com/v1/responses', {
+    ...init,
+    method: 'POST',
+    headers: {
+      authorization: 'Bearer sk-test',
+      'content-type': 'application/json',
+      ...init?.headers,
+    },
+    body: JSON.stringify({
+      model: 'gpt-test',
+      stream: true,
+      input: [{ role: 'user', content: 'Hello' }],
+      ...body,
+    }),
+  });
+}
+
+/** The events of a server-sent event stream. */
+export async function readEvents(
+  response: Response,
+): Promise<Record<string, any>[]> {
+  const text = await response.text();
+  return text
+    .split('\n\n')
+    .filter(Boolean)
+    .map(block =>
+      JSON.parse(
+        block
+          .split('\n')
+          .filter(line => line.startsWith('data: '))
+          .map(line => line.slice('data: '.length))
+          .join('\n'),
+      ),
+    );
+}
+
+/** Resolves once `condition` holds, checking every few milliseconds. */
+export async function waitFor(
+  condition: () => boolean,
+  timeout = 2000,
+): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline)
+      throw new Error('Condition not met in time');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
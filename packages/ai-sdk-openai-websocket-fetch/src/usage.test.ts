@@ -0,0 +1,110 @@
+import { expect, it, vi } from 'vitest';
+import type { RateLimitsEvent, UsageEvent } from './index';
+import {
+  post,
+  readEvents,
+  responseEvents,
+  useMockServer,
+} from './test/mock-server';
+
+let remaining = 100;
+
+// reports one request less remaining after each response has started
+const mock = useMockServer(
+  (message, connection) => {
+    const [created, delta, completed] = responseEvents();
+    connection.send(created);
+    connection.send({
+      type: 'rate_limits.updated',
+      rate_limits: [
+        {
+          name: 'requests',
+          limit: 100,
+          remaining: --remaining,
+          reset_seconds: 1.5,
+        },
+        { limit: 1 },
+      ],
+    });
+    connection.send(delta);
+    connection.send(completed);
+  },
+  { fallback: false },
+);
+
+it('sums the usage of all responses', async () => {
+  const onUsage = vi.fn<(event: UsageEvent) => void>();
+  const wsFetch = mock.create({ onUsage });
+
+  await (await post(wsFetch)).text();
+  await (await post(wsFetch, { model: 'gpt-other' })).text();
+
+  expect(onUsage).toHaveBeenCalledTimes(2);
+  expect(onUsage.mock.calls[1][0]).toMatchObject({
+    model: 'gpt-other',
+    usage: { inputTokens: 3, outputTokens: 1, totalTokens: 4 },
+  });
+  expect(wsFetch.usage()).toMatchObject({
+    responses: 2,
+    total: { inputTokens: 6, outputTokens: 2, totalTokens: 8 },
+  });
+
+  wsFetch.resetUsage();
+  expect(wsFetch.usage()).toMatchObject({
+    responses: 0,
+    total: { totalTokens: 0 },
+    rateLimits: { requests: { remaining } },
+  });
+});
+
+it('reports rate limits instead of forwarding them', async () => {
+  const onRateLimits = vi.fn<(event: RateLimitsEvent) => void>();
+  const wsFetch = mock.create({ onRateLimits });
+
+  const events = await readEvents(await post(wsFetch));
+
+  expect(events.map(event => event.type)).not.toContain(
+    'rate_limits.updated',
+  );
+  // the entry without a name is skipped
+  expect(onRateLimits).toHaveBeenCalledWith(
+    expect.objectContaining({
+      rateLimits: [
+        expect.objectContaining({
+          name: 'requests',
+          limit: 100,
+          remaining,
+          resetSeconds: 1.5,
+        }),
+      ],
+    }),
+  );
+});
+
+it('sets the headers to the limits of the previous request', async () => {
+  const wsFetch = mock.create();
+
+  const first = await post(wsFetch);
+  await first.text();
+  expect(first.headers.has('x-ratelimit-remaining-requests')).toBe(false);
+  const reported = remaining;
+
+  const second = await post(wsFetch);
+  await second.text();
+  expect(second.headers.get('x-ratelimit-limit-requests')).toBe('100');
+  expect(second.headers.get('x-ratelimit-remaining-requests')).toBe(
+    String(reported),
+  );
+  expect(second.headers.get('x-ratelimit-reset-requests')).toMatch(
+    /^(1(\.\d+)?s|\d+ms)$/,
+  );
+
+  // other credentials have limits of their own
+  const other = await post(
+    wsFetch,
+    {},
+    { headers: { authorization: 'Bearer sk-other' } },
+  );
+  await other.text();
+  expect(other.headers.has('x-ratelimit-remaining-requests')).toBe(false);
+});
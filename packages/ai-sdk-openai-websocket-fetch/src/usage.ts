@@ -0,0 +1,206 @@
+import { isRecord, valueAt } from './events';
+
+export interface TokenUsage {
+  inputTokens: number;
+
+  /** Input tokens read from the prompt cache. */
+  cachedInputTokens: number;
+
+  outputTokens: number;
+
+  /** Output tokens spent on reasoning. */
+  reasoningTokens: number;
+
+  totalTokens: number;
+}
+
+/** A rate limit as last reported by the server. */
+export interface RateLimit {
+  /** What is limited, e.g. `requests` or `tokens`. */
+  name: string;
+
+  limit: number;
+  remaining: number;
+
+  /** Seconds until the limit is fully replenished. */
+  resetSeconds: number;
+
+  /** Time the limit was reported (ms since epoch). */
+  updatedAt: number;
+}
+
+export interface UsageSnapshot {
+  /** Number of responses that reported usage. */
+  responses: number;
+
+  /** Usage summed over all responses. */
+  total: TokenUsage;
+
+  /**
+   * The latest reported rate limits by name. With several API keys, see
+   * the `onRateLimits` hook for the limits of each request.
+   */
+  rateLimits: Record<string, RateLimit>;
+}
+
+/**
+ * The usage of a `response.completed`, `response.incomplete` or
+ * `response.failed` event, if it reports one.
+ */
+export function usageOf(
+  event: Record<string, unknown> | undefined,
+): TokenUsage | undefined {
+  const usage = valueAt(event, 'response', 'usage');
+  if (!isRecord(usage) || typeof usage.input_tokens !== 'number') {
+    return undefined;
+  }
+
+  const inputTokens = usage.input_tokens;
+  const outputTokens = count(usage.output_tokens, 0);
+  return {
+    inputTokens,
+    cachedInputTokens: count(
+      valueAt(usage, 'input_tokens_details', 'cached_tokens'),
+      0,
+    ),
+    outputTokens,
+    reasoningTokens: count(
+      valueAt(usage, 'output_tokens_details', 'reasoning_tokens'),
+      0,
+    ),
+    totalTokens: count(usage.total_tokens, inputTokens + outputTokens),
+  };
+}
+
+/** The rate limits of a `rate_limits.updated` event. */
+export function rateLimitsOf(
+  event: Record<string, unknown> | undefined,
+): RateLimit[] | undefined {
+  if (
+    event?.type !== 'rate_limits.updated' ||
+    !Array.isArray(event.rate_limits)
+  ) {
+    return undefined;
+  }
+
+  const updatedAt = Date.now();
+  const rateLimits: RateLimit[] = [];
+  for (const limit of event.rate_limits as unknown[]) {
+    if (!isRecord(limit)) continue;
+    const { name, limit: max, remaining, reset_seconds } = limit;
+    if (typeof name !== 'string') continue;
+    rateLimits.push({
+      name,
+      limit: Number(max),
+      remaining: Number(remaining),
+      resetSeconds: Number(reset_seconds),
+      updatedAt,
+    });
+  }
+  return rateLimits;
+}
+
+/**
+ * Sums the usage of responses and keeps the latest rate limits, overall
+ * and per connection identity.
+ */
+export function createUsageTracker() {
+  let responses = 0;
+  let total = emptyUsage();
+  let latest: Record<string, RateLimit> = {};
+  const byIdentity = new Map<string, Record<string, RateLimit>>();
+
+  return {
+    addUsage(usage: TokenUsage) {
+      responses++;
+      total = {
+        inputTokens: total.inputTokens + usage.inputTokens,
+        cachedInputTokens:
+          total.cachedInputTokens + usage.cachedInputTokens,
+        outputTokens: total.outputTokens + usage.outputTokens,
+        reasoningTokens: total.reasoningTokens + usage.reasoningTokens,
+        totalTokens: total.totalTokens + usage.totalTokens,
+      };
+    },
+
+    updateRateLimits(identityKey: string, rateLimits: RateLimit[]) {
+      const current = { ...byIdentity.get(identityKey) };
+      for (const limit of rateLimits) {
+        current[limit.name] = limit;
+        latest = { ...latest, [limit.name]: limit };
+      }
+      byIdentity.set(identityKey, current);
+    },
+
+    rateLimitsFor(identityKey: string): RateLimit[] {
+      return Object.values(byIdentity.get(identityKey) ?? {});
+    },
+
+    snapshot(): UsageSnapshot {
+      return { responses, total, rateLimits: latest };
+    },
+
+    reset() {
+      responses = 0;
+      total = emptyUsage();
+    },
+  };
+}
+
+export type UsageTracker = ReturnType<typeof createUsageTracker>;
+
+/**
+ * The `x-ratelimit-*` headers the HTTP endpoint sends for `rateLimits`,
+ * e.g. `x-ratelimit-remaining-tokens`. The reset time counts from when
+ * the limit was reported.
+ *
+ * A response is returned before its own `rate_limits.updated` event
+ * arrives, so its headers are those reported during earlier responses.
+ */
+export function rateLimitHeaders(
+  rateLimits: RateLimit[],
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const now = Date.now();
+  for (const limit of rateLimits) {
+    const reset = Math.max(
+      0,
+      limit.resetSeconds - (now - limit.updatedAt) / 1000,
+    );
+    headers[`x-ratelimit-limit-${limit.name}`] = String(limit.limit);
+    headers[`x-ratelimit-remaining-${limit.name}`] = String(
+      limit.remaining,
+    );
+    headers[`x-ratelimit-reset-${limit.name}`] = formatDuration(reset);
+  }
+  return headers;
+}
+
+// the duration format of the HTTP headers, e.g. `20ms`, `1s` or `6m0s`
+function formatDuration(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  if (ms < 1000) return `${ms}ms`;
+
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const rest = (ms % 60_000) / 1000;
+  return (
+    (hours ? `${hours}h` : '') +
+    (hours || minutes ? `${minutes}m` : '') +
+    `${rest}s`
+  );
+}
+
+function count(value: unknown, fallback: number): number {
+  return typeof value === 'number' ? value : fallback;
+}
+
+function emptyUsage(): TokenUsage {
+  return {
+    inputTokens: 0,
+    cachedInputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    totalTokens: 0,
+  };
+}